@@ -1,56 +1,73 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Track, StepState, PLocks, GlobalFXParams, LFOParams, AllInstrumentParams, TrackType } from './types';
-import { INITIAL_TRACKS } from './constants';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Track, StepState, PLocks, GlobalFXParams, LFOParams, AllInstrumentParams, TrackType, ProjectState, Pattern, ChainEntry, MidiNoteMapEntry, MidiCCMapping, MidiCCTarget, TrackMidiOut, NoteArticulation, ParamSlide, FXSends, KickParams, HatParams, PolyParams, BassParams, ModalParams, RiftParams, GrainParams, ScreamParams, SampleParams, SampleInfo, StepChord, ProjectScale, EuclidSettings, RandomizerSettings, RandomRule, SoundPreset, Kit } from './types';
+import { INITIAL_TRACKS, INITIAL_GLOBAL_FX_PARAMS, INITIAL_ENGINE_PARAMS, DEFAULT_MIDI_NOTE_MAP, MAX_POLY_VOICES, SCALES, DEFAULT_SCALE, DEFAULT_RANDOMIZER_SETTINGS } from './constants';
 import Sequencer from './components/Sequencer';
 import InstrumentEditor from './components/InstrumentEditor';
 import Knob from './components/Knob';
 import EffectsRack from './components/EffectsRack';
 import Mixer from './components/Mixer';
-import { noteToFreq } from './utils';
+import PatternBank from './components/PatternBank';
+import MidiSettings from './components/MidiSettings';
+import GlobalPresetManager from './components/GlobalPresetManager';
+import SampleBrowser from './components/SampleBrowser';
+import { noteToFreq, midiToNoteName, noteNameToMidi, snapToScale, NOTE_NAMES } from './utils';
 import { audioBufferToWav } from './wavUtils';
+import { createPatternBank, createEmptyPattern, capturePattern, applyPattern, storePattern, getPatternTracks, advanceChainPosition, getChainStepCount, patternName, setPatternTranspose, ChainPosition } from './patternBank';
+import { StepClock, getStepDuration, getPatternCycleLength } from './scheduler';
+import { applyEuclidean } from './euclid';
+import { randomizeTrack, mutateTrack } from './randomizer';
+import { StepsEdit } from './stepTools';
+import { FACTORY_PRESETS, applyPreset, createPreset, loadUserPresets, saveUserPresets, createKit, applyKit, downloadKit, readKitFile, loadKits, saveKits } from './presetLibrary';
+import { loadSampleInfos, loadSampleData, importSampleFile, deleteSample, decodeSampleFile, DecodedSample } from './sampleStore';
+import { createHistory, recordEdit, undoEdit, redoEdit, HistorySnapshot } from './history';
+import { MidiEngine, MidiPortInfo, ClockMode, requestMidiAccess, audioTimeToMidiTime, midiTimeToAudioTime } from './midi';
+import { MidiLearnContext, MidiLearnState, MidiLearnRange, getTargetKey, ccToParamValue, addCCMapping, getTrackCCValues } from './midiLearn';
+import { downloadProject, readProjectFile, saveProjectToStorage, loadProjectFromStorage, PROJECT_FILE_EXTENSION } from './projectIO';
 
 
-const createRandomizedTrack = (track: Track): Track => {
-    const melodicScale = ['C3', 'D#3', 'F3', 'G3', 'A#3', 'C4', 'D#4', 'F4', 'G4', 'A#4', 'C5'];
-    
-    // Polyrhythm: generate a new pattern length. Keep kick on 16 for stability.
-    const newPatternLength = track.type === 'kick' ? 16 : 12 + Math.floor(Math.random() * 5); // 12-16 steps
+const SCALE_OPTIONS: { id: ProjectScale['scale']; name: string }[] = [...SCALES, { id: 'custom', name: 'CUSTOM' }];
 
-    const newSteps: StepState[] = Array(16).fill(null).map(() => {
-      const isActive = Math.random() > 0.65;
-      const velocity = 0.6 + Math.random() * 0.4;
-      let note: string | null = null;
 
-      if (isActive && ['poly', 'bass', 'modal', 'rift', 'grain', 'scream'].includes(track.type)) {
-        note = melodicScale[Math.floor(Math.random() * melodicScale.length)];
-      }
+// --- Web Audio API Engine ---
+const BASS_SLIDE_TIME = 0.06;
+const BASS_RETRIGGER_FADE = 0.003; // a still sounding note fades out this fast before the next one starts
 
-      return {
-        active: isActive,
-        pLocks: null,
-        note: note,
-        velocity: velocity,
-      };
-    });
+interface PolyVoice {
+  amp: GainNode;
+  sources: AudioScheduledSourceNode[];
+  endTime: number;
+}
 
-    // Special logic for kick to make it more useful
-    if (track.type === 'kick') {
-      for(let i = 0; i < 16; i++) {
-        if (i % 4 === 0) { // Main beats
-          newSteps[i] = { ...newSteps[i], active: true, velocity: 1.0 };
-        } else if (Math.random() > 0.85) { // Ghost notes
-          newSteps[i] = { ...newSteps[i], active: true, velocity: 0.3 + Math.random() * 0.3 };
-        } else {
-          newSteps[i].active = false;
-        }
-      }
-    }
+interface BassVoice {
+  osc: OscillatorNode;
+  accentFilter: BiquadFilterNode;
+  mainFilter: BiquadFilterNode;
+  amp: GainNode;
+  trackOut: GainNode;
+  sends: { reverb: GainNode; delay: GainNode; drive: GainNode };
+  lfos: { osc: OscillatorNode; gain: GainNode }[];
+  settingsKey: string; // waveform, filter type and LFO shapes and routing the nodes were built with
+  frequency: number;
+  legatoUntil: number; // a note starting before this time slides from the held one
+  soundingUntil: number;
+}
 
-    return { ...track, steps: newSteps, patternLength: newPatternLength };
-};
+// Switching these on a running node would change the note already sounding, so a change builds a new voice
+const getBassSettingsKey = ({ waveform, filter, lfo1, lfo2 }: BassParams) =>
+  [waveform, filter.type, lfo1.waveform, lfo1.destination, lfo2.waveform, lfo2.destination].join(':');
 
+// A trig's track settings with its p-locks applied
+interface VoiceValues<P> {
+  params: P;
+  fxSends: FXSends;
+  volume: number;
+}
+
+interface VoiceSettings<P> extends VoiceValues<P> {
+  from: VoiceValues<P> | null; // the previous step's values on a sliding step
+  set: (param: AudioParam, getValue: (values: VoiceValues<P>) => number) => void;
+}
 
-// --- Web Audio API Engine ---
 class AudioEngine {
   private audioContext: AudioContext | OfflineAudioContext;
   private masterGain: GainNode;
@@ -58,6 +75,11 @@ class AudioEngine {
   private makeupGain: GainNode;
   private preCompressorBus: GainNode;
   private noiseBuffer: AudioBuffer;
+  private bassVoices = new Map<number, BassVoice>();
+  private polyVoices = new Map<number, PolyVoice[]>();
+  private samples = new Map<string, DecodedSample>();
+  private reversedSamples = new WeakMap<AudioBuffer, AudioBuffer>();
+  private audition: AudioBufferSourceNode | null = null;
 
   // Global FX Nodes
   private reverb: ConvolverNode;
@@ -121,6 +143,44 @@ class AudioEngine {
     this.masterGain.gain.setValueAtTime(volume, this.audioContext.currentTime);
   }
 
+  // --- Samples, played by sample tracks through their `sampleId`
+  public decodeSample(data: ArrayBuffer): Promise<DecodedSample> { return decodeSampleFile(data, this.audioContext); }
+  public setSample(id: string, sample: DecodedSample) { this.samples.set(id, sample); }
+  public hasSample(id: string) { return this.samples.has(id); }
+
+  // Reads the sample from the library and decodes it unless it is loaded already; false when the library lacks it
+  public async loadSample(id: string): Promise<boolean> {
+    if (this.samples.has(id)) return true;
+    const data = await loadSampleData(id);
+    if (!data) return false;
+    this.samples.set(id, await this.decodeSample(data));
+    return true;
+  }
+  public copySamplesFrom(engine: AudioEngine) { engine.samples.forEach((sample, id) => this.samples.set(id, sample)); }
+
+  // Plays the whole sample straight to the master, cutting off the one auditioned before
+  public auditionSample(id: string) {
+    const sample = this.samples.get(id);
+    if (!sample) return;
+    this.audition?.stop();
+    const source = this.audioContext.createBufferSource();
+    source.buffer = sample.buffer;
+    source.connect(this.masterGain);
+    source.start();
+    this.audition = source;
+  }
+
+  private getReversedSample(buffer: AudioBuffer): AudioBuffer {
+    const cached = this.reversedSamples.get(buffer);
+    if (cached) return cached;
+    const reversed = this.audioContext.createBuffer(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+        reversed.getChannelData(channel).set(buffer.getChannelData(channel).slice().reverse());
+    }
+    this.reversedSamples.set(buffer, reversed);
+    return reversed;
+  }
+
   private applyEnvelope(param: AudioParam, time: number, attack: number, decay: number, sustain: number, peak: number) {
     const epsilon = 1e-6; 
     const attackEndTime = time + Math.max(0.001, attack);
@@ -131,6 +191,13 @@ class AudioEngine {
     param.setTargetAtTime(sustainLevel, attackEndTime, decay / 4 + epsilon);
   }
   
+  // Freezes the param at the value it has at `time`, dropping what comes after; browsers without
+  // cancelAndHoldAtTime drop the events but cannot hold mid-ramp
+  private holdParam(param: AudioParam, time: number) {
+    if (typeof param.cancelAndHoldAtTime === 'function') param.cancelAndHoldAtTime(time);
+    else param.cancelScheduledValues(time);
+  }
+
   private applyEnvelopeWithRelease(param: AudioParam, time: number, attack: number, decay: number, sustain: number, release: number, peak: number) {
     const sustainLevel = peak * sustain;
 
@@ -221,10 +288,37 @@ class AudioEngine {
     this.makeupGain.gain.setValueAtTime(makeupLinear, now);
   }
   
-  private connectToFX(sourceNode: AudioNode, fxSends: { reverb: number, delay: number, drive: number}) {
-      if (fxSends.reverb > 0) { const g = this.audioContext.createGain(); g.gain.value = fxSends.reverb; sourceNode.connect(g); g.connect(this.reverbPreDelay); }
-      if (fxSends.delay > 0) { const g = this.audioContext.createGain(); g.gain.value = fxSends.delay; sourceNode.connect(g); g.connect(this.delay); }
-      if (fxSends.drive > 0) { const g = this.audioContext.createGain(); g.gain.value = fxSends.drive; sourceNode.connect(g); g.connect(this.drive); }
+  // The trig's values and a setter for the AudioParams that follow them. On a sliding step the setter
+  // ramps from the previous step's values; waveforms, envelope times and LFOs still switch at the step.
+  private getVoiceSettings<P>(track: Track, base: P, pLocks: PLocks | null, time: number, paramSlide?: ParamSlide): VoiceSettings<P> {
+      const resolve = (locks: PLocks | null): VoiceValues<P> => ({
+          params: { ...base, ...(locks?.[`${track.type}Params` as keyof PLocks] as Partial<P> | undefined) },
+          fxSends: { ...track.fxSends, ...(locks?.fxSends || {}) },
+          volume: locks?.volume ?? track.volume,
+      });
+      const values = resolve(pLocks);
+      const from = paramSlide && time < paramSlide.end ? resolve(paramSlide.from) : null;
+      const set = (param: AudioParam, getValue: (values: VoiceValues<P>) => number) => {
+          const value = getValue(values);
+          if (!from) { param.setValueAtTime(value, time); return; }
+          // Later hits of a ratchet or arp pick the glide up where it is by now
+          const start = getValue(from);
+          const progress = Math.max(0, (time - paramSlide!.start) / (paramSlide!.end - paramSlide!.start));
+          param.setValueAtTime(start + (value - start) * progress, time);
+          param.linearRampToValueAtTime(value, paramSlide!.end);
+      };
+      return { ...values, from, set };
+  }
+
+  private connectToFX(sourceNode: AudioNode, { fxSends, from, set }: VoiceSettings<unknown>) {
+      const sends = [['reverb', this.reverbPreDelay], ['delay', this.delay], ['drive', this.drive]] as const;
+      sends.forEach(([send, destination]) => {
+          if (fxSends[send] <= 0 && !(from && from.fxSends[send] > 0)) return;
+          const g = this.audioContext.createGain();
+          set(g.gain, v => v.fxSends[send]);
+          sourceNode.connect(g);
+          g.connect(destination);
+      });
   }
 
   private applyLFO(lfoParams: LFOParams, time: number, targets: Record<string, AudioParam | undefined>) {
@@ -246,25 +340,24 @@ class AudioEngine {
         return lfo;
   }
 
-    private createKickVoice(track: Track, pLocks: PLocks | null, time: number, noteString: string, velocity: number) {
+    private createKickVoice(track: Track, pLocks: PLocks | null, time: number, noteString: string, velocity: number, paramSlide?: ParamSlide) {
         if (track.type !== 'kick') return;
-        const params = { ...track.params, ...(pLocks?.kickParams || {}) };
-        const fxSends = { ...track.fxSends, ...(pLocks?.fxSends || {}) };
-        const volume = pLocks?.volume ?? track.volume;
-        const { tune, decay, punch, saturation, body, tone, transientAmount, pitchEnvAmount, pitchEnvDecay, filter, lfo1, lfo2, rumbleAmount, rumbleDecay, rumbleTone } = params;
+        const settings = this.getVoiceSettings(track, track.params as KickParams, pLocks, time, paramSlide);
+        const { params, from, set } = settings;
+        const { decay, punch, transientAmount, pitchEnvAmount, pitchEnvDecay, filter, lfo1, lfo2, rumbleAmount, rumbleDecay } = params;
 
         // --- Setup track output
         const trackOut = this.audioContext.createGain();
-        trackOut.gain.value = volume * velocity;
+        set(trackOut.gain, v => v.volume * velocity);
         const limiter = this.createTrackLimiter();
         trackOut.connect(limiter);
         limiter.connect(this.preCompressorBus);
-        this.connectToFX(limiter, fxSends);
+        this.connectToFX(limiter, settings);
 
         // --- Body Oscillator (Sine wave)
         const osc = this.audioContext.createOscillator();
         osc.type = 'sine';
-        osc.frequency.setValueAtTime(noteToFreq(noteString) * (tune / 50), time);
+        set(osc.frequency, v => noteToFreq(noteString) * (v.params.tune / 50));
 
         // Pitch Envelope
         const pitchEnv = this.audioContext.createGain();
@@ -296,7 +389,7 @@ class AudioEngine {
         transientAmp.connect(preSaturatorMix);
 
         const saturatorDrive = this.audioContext.createGain();
-        saturatorDrive.gain.value = 1.0 + (saturation / 100) * 4;
+        set(saturatorDrive.gain, v => 1.0 + (v.params.saturation / 100) * 4);
         preSaturatorMix.connect(saturatorDrive);
 
         const saturator = this.audioContext.createWaveShaper();
@@ -311,11 +404,11 @@ class AudioEngine {
 
         // --- Final Mixer (Clean Body vs Saturated Signal)
         const cleanGain = this.audioContext.createGain();
-        cleanGain.gain.value = 1.0 - (body / 100);
+        set(cleanGain.gain, v => 1.0 - (v.params.body / 100));
         amp.connect(cleanGain);
 
         const saturatedGain = this.audioContext.createGain();
-        saturatedGain.gain.value = body / 100;
+        set(saturatedGain.gain, v => v.params.body / 100);
         saturator.connect(saturatedGain);
 
         const finalMixer = this.audioContext.createGain();
@@ -329,14 +422,14 @@ class AudioEngine {
         // --- Tone Control & Advanced Filter
         const toneFilter = this.audioContext.createBiquadFilter();
         toneFilter.type = 'lowpass';
-        toneFilter.frequency.value = tone;
+        set(toneFilter.frequency, v => v.params.tone);
         toneFilter.Q.value = 0.71;
         postMixGain.connect(toneFilter);
 
         const mainFilter = this.audioContext.createBiquadFilter();
         mainFilter.type = filter.type;
-        mainFilter.frequency.setValueAtTime(filter.cutoff, time);
-        mainFilter.Q.setValueAtTime(filter.resonance, time);
+        set(mainFilter.frequency, v => v.params.filter.cutoff);
+        set(mainFilter.Q, v => v.params.filter.resonance);
         toneFilter.connect(mainFilter);
 
         // --- Mixer for Main sound and Rumble
@@ -347,9 +440,9 @@ class AudioEngine {
         // --- Rumble FX Chain
         let rumblePreGain: GainNode | undefined;
         let rumbleFilterNode: BiquadFilterNode | undefined;
-        if (rumbleAmount > 0) {
+        if (rumbleAmount > 0 || (from?.params.rumbleAmount ?? 0) > 0) {
             rumblePreGain = this.audioContext.createGain();
-            rumblePreGain.gain.value = rumbleAmount / 100;
+            set(rumblePreGain.gain, v => v.params.rumbleAmount / 100);
             postMixGain.connect(rumblePreGain); // Source is pre-tone/filter for a cleaner rumble
 
             const rumbleReverb = this.audioContext.createConvolver();
@@ -358,7 +451,7 @@ class AudioEngine {
 
             rumbleFilterNode = this.audioContext.createBiquadFilter();
             rumbleFilterNode.type = 'lowpass';
-            rumbleFilterNode.frequency.value = rumbleTone;
+            set(rumbleFilterNode.frequency, v => v.params.rumbleTone);
             rumbleFilterNode.Q.value = 1;
             rumbleReverb.connect(rumbleFilterNode);
 
@@ -408,19 +501,18 @@ class AudioEngine {
     }
 
 
-  private createHatVoice(track: Track, pLocks: PLocks | null, time: number, velocity: number) {
+  private createHatVoice(track: Track, pLocks: PLocks | null, time: number, velocity: number, paramSlide?: ParamSlide) {
     if (track.type !== 'hat') return;
-    const params = { ...track.params, ...(pLocks?.hatParams || {}) };
-    const fxSends = { ...track.fxSends, ...(pLocks?.fxSends || {}) };
-    const volume = pLocks?.volume ?? track.volume;
-    const { tone, decay, metal, filter, lfo1, lfo2 } = params;
+    const settings = this.getVoiceSettings(track, track.params as HatParams, pLocks, time, paramSlide);
+    const { params, from, set } = settings;
+    const { decay, metal, filter, lfo1, lfo2 } = params;
 
     const trackOut = this.audioContext.createGain();
-    trackOut.gain.value = volume * velocity;
+    set(trackOut.gain, v => v.volume * velocity);
     const limiter = this.createTrackLimiter();
     trackOut.connect(limiter);
     limiter.connect(this.preCompressorBus);
-    this.connectToFX(limiter, fxSends);
+    this.connectToFX(limiter, settings);
     
     const amp = this.audioContext.createGain();
     this.applyEnvelope(amp.gain, time, 0.005, decay, 0, 1);
@@ -429,24 +521,25 @@ class AudioEngine {
     noiseSource.buffer = this.noiseBuffer;
     const noiseFilter = this.audioContext.createBiquadFilter();
     noiseFilter.type = 'highpass';
-    noiseFilter.frequency.value = tone;
+    set(noiseFilter.frequency, v => v.params.tone);
     noiseSource.connect(noiseFilter);
     
     const metalMixer = this.audioContext.createGain();
     const stopTime = time + decay + 1.0;
-    if (metal > 0) {
+    if (metal > 0 || (from?.params.metal ?? 0) > 0) {
         const ratios = [1, 1.34, 1.68, 2.24, 2.78, 3.14];
         for (let i = 0; i < 6; i++) {
             const osc = this.audioContext.createOscillator();
             osc.type = 'square';
-            osc.frequency.value = (100 + metal * 200) * ratios[i] + Math.random() * 20;
+            const jitter = Math.random() * 20;
+            set(osc.frequency, v => (100 + v.params.metal * 200) * ratios[i] + jitter);
             osc.connect(metalMixer);
             osc.start(time);
             osc.stop(stopTime);
         }
     }
     const metalGain = this.audioContext.createGain();
-    metalGain.gain.value = metal * 0.4;
+    set(metalGain.gain, v => v.params.metal * 0.4);
     metalMixer.connect(metalGain);
 
     const sourceMixer = this.audioContext.createGain();
@@ -455,8 +548,8 @@ class AudioEngine {
 
     const mainFilter = this.audioContext.createBiquadFilter();
     mainFilter.type = filter.type;
-    mainFilter.frequency.setValueAtTime(filter.cutoff, time);
-    mainFilter.Q.setValueAtTime(filter.resonance, time);
+    set(mainFilter.frequency, v => v.params.filter.cutoff);
+    set(mainFilter.Q, v => v.params.filter.resonance);
 
     sourceMixer.connect(amp);
     amp.connect(mainFilter);
@@ -474,36 +567,44 @@ class AudioEngine {
     lfos.forEach(lfo => lfo.stop(stopTime));
   }
 
-  private createPolyVoice(track: Track, pLocks: PLocks | null, time: number, noteString: string, velocity: number) {
+  private createPolyVoice(track: Track, pLocks: PLocks | null, time: number, noteString: string, velocity: number, paramSlide?: ParamSlide) {
     if (track.type !== 'poly') return;
-    const params = { ...track.params, ...(pLocks?.polyParams || {}) };
-    const fxSends = { ...track.fxSends, ...(pLocks?.fxSends || {}) };
-    const volume = pLocks?.volume ?? track.volume;
-    const { osc1, osc2, oscMix, noiseLevel, filter, ampEnv, filterEnv, lfo1, lfo2 } = params;
+    const settings = this.getVoiceSettings(track, track.params as PolyParams, pLocks, time, paramSlide);
+    const { params, from, set } = settings;
+    const { osc1, osc2, noiseLevel, filter, ampEnv, filterEnv, lfo1, lfo2 } = params;
+
+    // Over the voice budget the oldest sounding notes are cut to make room
+    const sounding = (this.polyVoices.get(track.id) ?? []).filter(v => v.endTime > time);
+    while (sounding.length >= (track.voiceLimit ?? MAX_POLY_VOICES)) {
+        const stolen = sounding.shift()!;
+        stolen.amp.gain.cancelScheduledValues(time);
+        stolen.amp.gain.setTargetAtTime(0, time, 0.005);
+        stolen.sources.forEach(source => source.stop(time + 0.05));
+    }
 
     const trackOut = this.audioContext.createGain();
-    trackOut.gain.value = volume * velocity;
+    set(trackOut.gain, v => v.volume * velocity);
     const limiter = this.createTrackLimiter();
     trackOut.connect(limiter);
     limiter.connect(this.preCompressorBus);
-    this.connectToFX(limiter, fxSends);
+    this.connectToFX(limiter, settings);
     
     const baseFrequency = noteToFreq(noteString);
 
     const osc1Node = this.audioContext.createOscillator();
     osc1Node.type = osc1.waveform;
-    osc1Node.frequency.setValueAtTime(baseFrequency * Math.pow(2, osc1.octave), time);
-    osc1Node.detune.setValueAtTime(osc1.detune, time);
+    set(osc1Node.frequency, v => baseFrequency * Math.pow(2, v.params.osc1.octave));
+    set(osc1Node.detune, v => v.params.osc1.detune);
     
     const osc2Node = this.audioContext.createOscillator();
     osc2Node.type = osc2.waveform;
-    osc2Node.frequency.setValueAtTime(baseFrequency * Math.pow(2, osc2.octave), time);
-    osc2Node.detune.setValueAtTime(osc2.detune, time);
+    set(osc2Node.frequency, v => baseFrequency * Math.pow(2, v.params.osc2.octave));
+    set(osc2Node.detune, v => v.params.osc2.detune);
 
     const osc1Gain = this.audioContext.createGain();
-    osc1Gain.gain.value = 1 - oscMix / 100;
+    set(osc1Gain.gain, v => 1 - v.params.oscMix / 100);
     const osc2Gain = this.audioContext.createGain();
-    osc2Gain.gain.value = oscMix / 100;
+    set(osc2Gain.gain, v => v.params.oscMix / 100);
     
     osc1Node.connect(osc1Gain);
     osc2Node.connect(osc2Gain);
@@ -514,11 +615,11 @@ class AudioEngine {
 
     let noise: AudioBufferSourceNode | undefined;
     const noiseGain = this.audioContext.createGain();
-    if (noiseLevel > 0) {
+    if (noiseLevel > 0 || (from?.params.noiseLevel ?? 0) > 0) {
         noise = this.audioContext.createBufferSource();
         noise.buffer = this.noiseBuffer;
         noise.loop = true;
-        noiseGain.gain.value = noiseLevel;
+        set(noiseGain.gain, v => v.params.noiseLevel);
         noise.connect(noiseGain);
         noiseGain.connect(sourceMixer);
         noise.start(time);
@@ -526,8 +627,8 @@ class AudioEngine {
     
     const filterNode = this.audioContext.createBiquadFilter();
     filterNode.type = filter.type;
-    filterNode.Q.setValueAtTime(filter.resonance, time);
-    filterNode.frequency.setValueAtTime(filter.cutoff, time);
+    set(filterNode.Q, v => v.params.filter.resonance);
+    set(filterNode.frequency, v => v.params.filter.cutoff);
 
     const amp = this.audioContext.createGain();
     sourceMixer.connect(filterNode);
@@ -559,72 +660,157 @@ class AudioEngine {
     osc2Node.stop(stopTime);
     if (noise) noise.stop(stopTime);
     lfos.forEach(lfo => lfo.stop(stopTime));
+
+    const sources: AudioScheduledSourceNode[] = [osc1Node, osc2Node, ...lfos];
+    if (noise) sources.push(noise);
+    sounding.push({ amp, sources, endTime: time + totalDuration });
+    this.polyVoices.set(track.id, sounding);
   }
 
-  private createBassVoice(track: Track, pLocks: PLocks | null, time: number, noteString: string, velocity: number) {
-    if (track.type !== 'bass') return;
-    const params = { ...track.params, ...(pLocks?.bassParams || {}) };
-    const fxSends = { ...track.fxSends, ...(pLocks?.fxSends || {}) };
-    const volume = pLocks?.volume ?? track.volume;
-    const { waveform, cutoff, resonance, decay, accent, filter, lfo1, lfo2 } = params;
+  // The bass keeps one running voice per track so slides can glide the oscillator between steps
+  // A sliding note keeps the held note's voice, and with it that note's waveform, filter type and LFO routing
+  private getBassVoice(track: Track, params: BassParams, time: number): BassVoice {
+    const existing = this.bassVoices.get(track.id);
+    const settingsKey = getBassSettingsKey(params);
+    if (existing && (existing.settingsKey === settingsKey || (time <= existing.legatoUntil && existing.frequency > 0))) return existing;
+    if (existing) this.stopBassVoice(track.id, time);
 
     const trackOut = this.audioContext.createGain();
-    trackOut.gain.value = volume * velocity;
     const limiter = this.createTrackLimiter();
     trackOut.connect(limiter);
     limiter.connect(this.preCompressorBus);
-    this.connectToFX(limiter, fxSends);
-    
-    const baseFreq = noteToFreq(noteString);
+    const sends = {
+        reverb: this.audioContext.createGain(),
+        delay: this.audioContext.createGain(),
+        drive: this.audioContext.createGain(),
+    };
+    limiter.connect(sends.reverb); sends.reverb.connect(this.reverbPreDelay);
+    limiter.connect(sends.delay); sends.delay.connect(this.delay);
+    limiter.connect(sends.drive); sends.drive.connect(this.drive);
 
     const osc = this.audioContext.createOscillator();
-    osc.type = waveform;
-    osc.frequency.setValueAtTime(baseFreq, time);
-
+    osc.type = params.waveform;
     const accentFilter = this.audioContext.createBiquadFilter();
     accentFilter.type = 'lowpass';
-    accentFilter.Q.value = resonance;
-    this.applyEnvelope(accentFilter.frequency, time, 0.001, accent / 100 * 0.5, 0, cutoff);
-    
     const mainFilter = this.audioContext.createBiquadFilter();
-    mainFilter.type = filter.type;
-    mainFilter.frequency.setValueAtTime(filter.cutoff, time);
-    mainFilter.Q.setValueAtTime(filter.resonance, time);
-
+    mainFilter.type = params.filter.type;
     const amp = this.audioContext.createGain();
-    this.applyEnvelope(amp.gain, time, 0.001, decay, 0, 1);
-    
+    amp.gain.value = 0;
     osc.connect(accentFilter);
     accentFilter.connect(mainFilter);
     mainFilter.connect(amp);
     amp.connect(trackOut);
-    
-    const lfos: OscillatorNode[] = [];
-    const lfoTargets = { pitch: osc.detune, volume: trackOut.gain, filterCutoff: mainFilter.frequency, filterResonance: mainFilter.Q, bassCutoff: accentFilter.frequency };
-    const lfo1Node = this.applyLFO(lfo1, time, lfoTargets);
-    if(lfo1Node) lfos.push(lfo1Node);
-    const lfo2Node = this.applyLFO(lfo2, time, lfoTargets);
-    if(lfo2Node) lfos.push(lfo2Node);
-
-    const stopTime = time + decay + 1.0;
     osc.start(time);
-    osc.stop(stopTime);
-    lfos.forEach(lfo => lfo.stop(stopTime));
+
+    const lfoTargets: Record<string, AudioParam | undefined> = { pitch: osc.detune, volume: trackOut.gain, filterCutoff: mainFilter.frequency, filterResonance: mainFilter.Q, bassCutoff: accentFilter.frequency };
+    const createLFO = (lfoParams: LFOParams) => {
+        const lfo = this.audioContext.createOscillator();
+        lfo.type = lfoParams.waveform;
+        const gain = this.audioContext.createGain();
+        gain.gain.value = 0;
+        lfo.connect(gain);
+        const target = lfoTargets[lfoParams.destination];
+        if (target) gain.connect(target);
+        lfo.start(time);
+        return { osc: lfo, gain };
+    };
+
+    const voice: BassVoice = {
+        osc, accentFilter, mainFilter, amp, trackOut, sends, lfos: [createLFO(params.lfo1), createLFO(params.lfo2)],
+        settingsKey, frequency: 0, legatoUntil: 0, soundingUntil: 0,
+    };
+    this.bassVoices.set(track.id, voice);
+    return voice;
+  }
+
+  private createBassVoice(track: Track, pLocks: PLocks | null, time: number, noteString: string, velocity: number, articulation?: NoteArticulation) {
+    if (track.type !== 'bass') return;
+    const settings = this.getVoiceSettings(track, track.params as BassParams, pLocks, time, articulation?.paramSlide);
+    const { params, set } = settings;
+    const { cutoff, decay, accent, lfo1, lfo2 } = params;
+    const voice = this.getBassVoice(track, params, time);
+    const { osc, accentFilter, mainFilter, amp, trackOut } = voice;
+
+    const isAccented = articulation?.accent ?? false;
+    const accentAmount = isAccented ? accent / 100 : 0;
+    set(trackOut.gain, v => v.volume * velocity * (1 + accentAmount * 0.5));
+    set(voice.sends.reverb.gain, v => v.fxSends.reverb);
+    set(voice.sends.delay.gain, v => v.fxSends.delay);
+    set(voice.sends.drive.gain, v => v.fxSends.drive);
+
+    set(mainFilter.frequency, v => v.params.filter.cutoff);
+    set(mainFilter.Q, v => v.params.filter.resonance);
+    set(accentFilter.Q, v => v.params.resonance);
+
+    [lfo1, lfo2].forEach((lfoParams, i) => {
+        const lfo = voice.lfos[i];
+        lfo.osc.frequency.setValueAtTime(lfoParams.rate, time);
+        lfo.gain.gain.setValueAtTime(lfoParams.destination === 'none' ? 0 : lfoParams.depth, time);
+    });
+
+    const baseFreq = noteToFreq(noteString);
+    osc.frequency.cancelScheduledValues(time);
+    amp.gain.cancelScheduledValues(time);
+    if (time <= voice.legatoUntil && voice.frequency > 0) {
+        // Legato: glide from the held note, keep the envelopes running
+        osc.frequency.setValueAtTime(voice.frequency, time);
+        osc.frequency.exponentialRampToValueAtTime(baseFreq, time + BASS_SLIDE_TIME);
+    } else {
+        // A note still sounding is faded out first; jumping its level to zero would click
+        let noteStart = time;
+        if (time < voice.soundingUntil) {
+            noteStart = time + BASS_RETRIGGER_FADE;
+            [amp.gain, accentFilter.frequency].forEach(param => {
+                this.holdParam(param, time);
+                param.linearRampToValueAtTime(0, noteStart);
+            });
+        } else {
+            accentFilter.frequency.cancelScheduledValues(time);
+        }
+        osc.frequency.setValueAtTime(baseFreq, noteStart);
+        this.applyEnvelope(accentFilter.frequency, noteStart, 0.001, accent / 100 * 0.5 * (1 + accentAmount), 0, Math.min(20000, cutoff * (1 + accentAmount)));
+        this.applyEnvelope(amp.gain, noteStart, 0.001, decay, 0, 1);
+    }
+    voice.frequency = baseFreq;
+
+    // A sliding note holds its gate into the next step, which cancels this release if it arrives in time
+    const slotLength = articulation?.length ?? decay;
+    const slides = articulation?.slide ?? false;
+    const releaseTime = slides ? time + slotLength * 1.5 : time + slotLength * (articulation?.gateLength ?? 1);
+    voice.legatoUntil = slides ? releaseTime : 0;
+    voice.soundingUntil = Math.max(releaseTime, time + decay) + 0.05;
+    amp.gain.setTargetAtTime(0, releaseTime, 0.01);
+  }
+
+  // Fades the track's bass voice out at `time` and frees its nodes; the next bass note builds a new one
+  public stopBassVoice(trackId: number, time = this.audioContext.currentTime) {
+    const voice = this.bassVoices.get(trackId);
+    if (!voice) return;
+    this.bassVoices.delete(trackId);
+    this.holdParam(voice.amp.gain, time);
+    voice.amp.gain.linearRampToValueAtTime(0, time + BASS_RETRIGGER_FADE);
+    const stopTime = time + BASS_RETRIGGER_FADE + 0.01;
+    [voice.osc, ...voice.lfos.map(lfo => lfo.osc)].forEach(node => node.stop(stopTime));
+  }
+
+  // Frees every bass voice once its last note has rung out, so no oscillator keeps running while stopped
+  public stopAllBassVoices() {
+    const now = this.audioContext.currentTime;
+    [...this.bassVoices].forEach(([trackId, voice]) => this.stopBassVoice(trackId, Math.max(now, voice.soundingUntil)));
   }
 
-  private createModalVoice(track: Track, pLocks: PLocks | null, time: number, noteString: string, velocity: number) {
+  private createModalVoice(track: Track, pLocks: PLocks | null, time: number, noteString: string, velocity: number, paramSlide?: ParamSlide) {
     if (track.type !== 'modal') return;
-    const params = { ...track.params, ...(pLocks?.modalParams || {}) };
-    const fxSends = { ...track.fxSends, ...(pLocks?.fxSends || {}) };
-    const volume = pLocks?.volume ?? track.volume;
-    const { structure, brightness, decay, damping, filter, lfo1, lfo2 } = params;
+    const settings = this.getVoiceSettings(track, track.params as ModalParams, pLocks, time, paramSlide);
+    const { params, set } = settings;
+    const { structure, decay, filter, lfo1, lfo2 } = params;
 
     const trackOut = this.audioContext.createGain();
-    trackOut.gain.value = volume * velocity;
+    set(trackOut.gain, v => v.volume * velocity);
     const limiter = this.createTrackLimiter();
     trackOut.connect(limiter);
     limiter.connect(this.preCompressorBus);
-    this.connectToFX(limiter, fxSends);
+    this.connectToFX(limiter, settings);
     
     const exciter = this.audioContext.createBufferSource();
     exciter.buffer = this.noiseBuffer;
@@ -639,25 +825,26 @@ class AudioEngine {
     const baseFreq = noteToFreq(noteString);
 
     const brightnessGain = this.audioContext.createGain();
-    brightnessGain.gain.value = brightness / 100;
+    set(brightnessGain.gain, v => v.params.brightness / 100);
 
-    for (let i = 0; i < NUM_MODES; i++) {
+    const getModeFreq = (i: number, structure: number) => {
         const structRatio = structure / 100;
-        const ratio = HARMONIC_RATIOS[i] * (1 - structRatio) + METALLIC_RATIOS[i] * structRatio;
-        const freq = baseFreq * ratio;
-        if (freq > this.audioContext.sampleRate / 2) continue;
+        return baseFreq * (HARMONIC_RATIOS[i] * (1 - structRatio) + METALLIC_RATIOS[i] * structRatio);
+    };
 
-        const gainVal = Math.pow(1 - (i / (NUM_MODES - 1)), (1 - brightness / 100) * 4);
-        const baseQ = 50 + (decay * 200);
-        const qVal = Math.min(200, baseQ * Math.max(0.1, (1 - (damping / 100) * (i / (NUM_MODES - 1))**2)));
+    for (let i = 0; i < NUM_MODES; i++) {
+        if (getModeFreq(i, structure) > this.audioContext.sampleRate / 2) continue;
+
+        const getGain = (brightness: number) => Math.pow(1 - (i / (NUM_MODES - 1)), (1 - brightness / 100) * 4);
+        const getQ = (decay: number, damping: number) => Math.min(200, (50 + (decay * 200)) * Math.max(0.1, (1 - (damping / 100) * (i / (NUM_MODES - 1))**2)));
         
         const modeFilter = this.audioContext.createBiquadFilter();
         modeFilter.type = 'bandpass';
-        modeFilter.frequency.value = freq;
-        modeFilter.Q.value = qVal;
+        set(modeFilter.frequency, v => getModeFreq(i, v.params.structure));
+        set(modeFilter.Q, v => getQ(v.params.decay, v.params.damping));
 
         const modeGain = this.audioContext.createGain();
-        modeGain.gain.value = gainVal / NUM_MODES;
+        set(modeGain.gain, v => getGain(v.params.brightness) / NUM_MODES);
 
         exciterAmp.connect(modeFilter);
         modeFilter.connect(modeGain);
@@ -666,8 +853,8 @@ class AudioEngine {
 
     const mainFilter = this.audioContext.createBiquadFilter();
     mainFilter.type = filter.type;
-    mainFilter.frequency.setValueAtTime(filter.cutoff, time);
-    mainFilter.Q.setValueAtTime(filter.resonance, time);
+    set(mainFilter.frequency, v => v.params.filter.cutoff);
+    set(mainFilter.Q, v => v.params.filter.resonance);
 
     const amp = this.audioContext.createGain();
     this.applyEnvelope(amp.gain, time, 0.01, decay * 2, 0, 1);
@@ -689,26 +876,25 @@ class AudioEngine {
     lfos.forEach(lfo => lfo.stop(stopTime));
   }
   
-  private createRiftVoice(track: Track, pLocks: PLocks | null, time: number, noteString: string, velocity: number) {
+  private createRiftVoice(track: Track, pLocks: PLocks | null, time: number, noteString: string, velocity: number, paramSlide?: ParamSlide) {
       if (track.type !== 'rift') return;
-      const params = { ...track.params, ...(pLocks?.riftParams || {}) };
-      const fxSends = { ...track.fxSends, ...(pLocks?.fxSends || {}) };
-      const volume = pLocks?.volume ?? track.volume;
-      const { pitch, fold, drive, feedback, decay, filter, lfo1, lfo2 } = params;
+      const settings = this.getVoiceSettings(track, track.params as RiftParams, pLocks, time, paramSlide);
+      const { params, set } = settings;
+      const { fold, drive, decay, filter, lfo1, lfo2 } = params;
 
       const trackOut = this.audioContext.createGain();
-      trackOut.gain.value = volume * velocity;
+      set(trackOut.gain, v => v.volume * velocity);
       const limiter = this.createTrackLimiter();
       trackOut.connect(limiter);
       limiter.connect(this.preCompressorBus);
-      this.connectToFX(limiter, fxSends);
+      this.connectToFX(limiter, settings);
 
       const baseFreq = noteToFreq(noteString);
 
       const osc = this.audioContext.createOscillator();
       osc.type = 'triangle';
       osc.frequency.setValueAtTime(baseFreq, time);
-      osc.detune.setValueAtTime(pitch, time);
+      set(osc.detune, v => v.params.pitch);
 
       const folder = this.audioContext.createWaveShaper();
       const n_samples = 256;
@@ -727,15 +913,15 @@ class AudioEngine {
 
       const feedbackPath = this.audioContext.createDelay(0.01);
       const feedbackGain = this.audioContext.createGain();
-      feedbackGain.gain.value = feedback / 100 * 0.95; // feedback < 1 to prevent explosion
+      set(feedbackGain.gain, v => v.params.feedback / 100 * 0.95); // feedback < 1 to prevent explosion
 
       const amp = this.audioContext.createGain();
       this.applyEnvelope(amp.gain, time, 0.005, decay, 0, 1.0);
 
       const mainFilter = this.audioContext.createBiquadFilter();
       mainFilter.type = filter.type;
-      mainFilter.frequency.setValueAtTime(filter.cutoff, time);
-      mainFilter.Q.setValueAtTime(filter.resonance, time);
+      set(mainFilter.frequency, v => v.params.filter.cutoff);
+      set(mainFilter.Q, v => v.params.filter.resonance);
       
       osc.connect(amp);
       amp.connect(folder);
@@ -759,31 +945,30 @@ class AudioEngine {
       lfos.forEach(lfo => lfo.stop(stopTime));
   }
   
-  private createGrainVoice(track: Track, pLocks: PLocks | null, time: number, noteString: string, velocity: number) {
+  private createGrainVoice(track: Track, pLocks: PLocks | null, time: number, noteString: string, velocity: number, paramSlide?: ParamSlide) {
       if (track.type !== 'grain') return;
-      const params = { ...track.params, ...(pLocks?.grainParams || {}) };
-      const fxSends = { ...track.fxSends, ...(pLocks?.fxSends || {}) };
-      const volume = pLocks?.volume ?? track.volume;
-      const { pitch, decay, density, spread, grainSize, filter, lfo1, lfo2 } = params;
+      const settings = this.getVoiceSettings(track, track.params as GrainParams, pLocks, time, paramSlide);
+      const { params, set } = settings;
+      const { decay, density, spread, grainSize, filter, lfo1, lfo2 } = params;
 
       const trackOut = this.audioContext.createGain();
-      trackOut.gain.value = volume * velocity;
+      set(trackOut.gain, v => v.volume * velocity);
       const limiter = this.createTrackLimiter();
       trackOut.connect(limiter);
       limiter.connect(this.preCompressorBus);
-      this.connectToFX(limiter, fxSends);
+      this.connectToFX(limiter, settings);
 
       const baseFreq = noteToFreq(noteString);
       const grainCount = 2 + Math.floor(density / 100 * 20);
       const totalDuration = decay * 1.5;
 
       const grainPitch = this.audioContext.createGain();
-      grainPitch.gain.setValueAtTime(pitch, time);
+      set(grainPitch.gain, v => v.params.pitch);
 
       const mainFilter = this.audioContext.createBiquadFilter();
       mainFilter.type = filter.type;
-      mainFilter.frequency.setValueAtTime(filter.cutoff, time);
-      mainFilter.Q.setValueAtTime(filter.resonance, time);
+      set(mainFilter.frequency, v => v.params.filter.cutoff);
+      set(mainFilter.Q, v => v.params.filter.resonance);
       mainFilter.connect(trackOut);
 
       for (let i = 0; i < grainCount; i++) {
@@ -816,19 +1001,18 @@ class AudioEngine {
       lfos.forEach(lfo => lfo.stop(stopTime));
   }
   
-  private createScreamVoice(track: Track, pLocks: PLocks | null, time: number, noteString: string, velocity: number) {
+  private createScreamVoice(track: Track, pLocks: PLocks | null, time: number, noteString: string, velocity: number, paramSlide?: ParamSlide) {
       if (track.type !== 'scream') return;
-      const params = { ...track.params, ...(pLocks?.screamParams || {}) };
-      const fxSends = { ...track.fxSends, ...(pLocks?.fxSends || {}) };
-      const volume = pLocks?.volume ?? track.volume;
-      const { pitch, decay, feedback, damping, filter, lfo1, lfo2 } = params;
+      const settings = this.getVoiceSettings(track, track.params as ScreamParams, pLocks, time, paramSlide);
+      const { params, set } = settings;
+      const { decay, filter, lfo1, lfo2 } = params;
 
       const trackOut = this.audioContext.createGain();
-      trackOut.gain.value = volume * velocity * 0.8; // Tame it a bit
+      set(trackOut.gain, v => v.volume * velocity * 0.8); // Tame it a bit
       const limiter = this.createTrackLimiter();
       trackOut.connect(limiter);
       limiter.connect(this.preCompressorBus);
-      this.connectToFX(limiter, fxSends);
+      this.connectToFX(limiter, settings);
 
       const baseFreq = noteToFreq(noteString);
 
@@ -840,17 +1024,17 @@ class AudioEngine {
 
       const feedbackPath = this.audioContext.createDelay(1 / baseFreq);
       const feedbackGain = this.audioContext.createGain();
-      feedbackGain.gain.value = Math.min(0.99, feedback / 100);
+      set(feedbackGain.gain, v => Math.min(0.99, v.params.feedback / 100));
 
       const dampingFilter = this.audioContext.createBiquadFilter();
       dampingFilter.type = 'lowpass';
-      dampingFilter.frequency.setValueAtTime(damping, time);
+      set(dampingFilter.frequency, v => v.params.damping);
       dampingFilter.Q.value = 0.5;
 
       const mainFilter = this.audioContext.createBiquadFilter();
       mainFilter.type = filter.type;
-      mainFilter.frequency.setValueAtTime(filter.cutoff, time);
-      mainFilter.Q.setValueAtTime(filter.resonance, time);
+      set(mainFilter.frequency, v => v.params.filter.cutoff);
+      set(mainFilter.Q, v => v.params.filter.resonance);
 
       const amp = this.audioContext.createGain();
       this.applyEnvelope(amp.gain, time, 0.01, decay, 0, 1);
@@ -877,45 +1061,175 @@ class AudioEngine {
       lfos.forEach(lfo => lfo.stop(stopTime));
   }
 
-  public trigger(track: Track, pLocks: PLocks | null, time: number, note: string, velocity: number) {
+  private createSampleVoice(track: Track, pLocks: PLocks | null, time: number, noteString: string, velocity: number, paramSlide?: ParamSlide) {
+      if (track.type !== 'sample') return;
+      const settings = this.getVoiceSettings(track, track.params as SampleParams, pLocks, time, paramSlide);
+      const { params, set } = settings;
+      const { sampleId, start, end, reverse, loop, ampEnv, filter, lfo1, lfo2 } = params;
+      const sample = sampleId ? this.samples.get(sampleId) : undefined;
+      if (!sample) return;
+      const { duration } = sample.buffer;
+
+      // Reversed, the region plays from its end back to its start
+      const regionStart = Math.min(start, end) / 100 * duration;
+      const regionEnd = Math.max(Math.max(start, end) / 100 * duration, regionStart + 0.001);
+      const buffer = reverse ? this.getReversedSample(sample.buffer) : sample.buffer;
+      const offset = reverse ? duration - regionEnd : regionStart;
+
+      const trackOut = this.audioContext.createGain();
+      set(trackOut.gain, v => v.volume * velocity);
+      const limiter = this.createTrackLimiter();
+      trackOut.connect(limiter);
+      limiter.connect(this.preCompressorBus);
+      this.connectToFX(limiter, settings);
+
+      const source = this.audioContext.createBufferSource();
+      source.buffer = buffer;
+      source.playbackRate.setValueAtTime(noteToFreq(noteString) / noteToFreq(track.defaultNote), time);
+      set(source.detune, v => v.params.pitch);
+      if (loop) {
+          // The file's own loop wins over looping the region, except in reverse
+          const loopRegion = sample.loop && !reverse ? sample.loop : { start: offset, end: offset + regionEnd - regionStart };
+          source.loop = true;
+          source.loopStart = loopRegion.start;
+          source.loopEnd = loopRegion.end;
+      }
+
+      const mainFilter = this.audioContext.createBiquadFilter();
+      mainFilter.type = filter.type;
+      set(mainFilter.frequency, v => v.params.filter.cutoff);
+      set(mainFilter.Q, v => v.params.filter.resonance);
+
+      const amp = this.audioContext.createGain();
+      const totalDuration = ampEnv.attack + ampEnv.decay + ampEnv.release;
+      this.applyEnvelopeWithRelease(amp.gain, time, ampEnv.attack, ampEnv.decay, ampEnv.sustain, ampEnv.release, 1.0);
+
+      source.connect(mainFilter);
+      mainFilter.connect(amp);
+      amp.connect(trackOut);
+
+      const lfos: OscillatorNode[] = [];
+      const lfoTargets = { pitch: source.detune, volume: trackOut.gain, filterCutoff: mainFilter.frequency, filterResonance: mainFilter.Q };
+      const lfo1Node = this.applyLFO(lfo1, time, lfoTargets);
+      if(lfo1Node) lfos.push(lfo1Node);
+      const lfo2Node = this.applyLFO(lfo2, time, lfoTargets);
+      if(lfo2Node) lfos.push(lfo2Node);
+
+      const stopTime = time + totalDuration + 1.0;
+      // A one-shot ends at the region's end however long the envelope is
+      if (loop) source.start(time, offset);
+      else source.start(time, offset, regionEnd - regionStart);
+      source.stop(stopTime);
+      lfos.forEach(lfo => lfo.stop(stopTime));
+  }
+
+  public trigger(track: Track, pLocks: PLocks | null, time: number, note: string, velocity: number, articulation?: NoteArticulation) {
       switch (track.type) {
-          case 'kick': return this.createKickVoice(track, pLocks, time, note, velocity);
-          case 'hat': return this.createHatVoice(track, pLocks, time, velocity);
-          case 'poly': return this.createPolyVoice(track, pLocks, time, note, velocity);
-          case 'bass': return this.createBassVoice(track, pLocks, time, note, velocity);
-          case 'modal': return this.createModalVoice(track, pLocks, time, note, velocity);
-          case 'rift': return this.createRiftVoice(track, pLocks, time, note, velocity);
-          case 'grain': return this.createGrainVoice(track, pLocks, time, note, velocity);
-          case 'scream': return this.createScreamVoice(track, pLocks, time, note, velocity);
+          case 'kick': return this.createKickVoice(track, pLocks, time, note, velocity, articulation?.paramSlide);
+          case 'hat': return this.createHatVoice(track, pLocks, time, velocity, articulation?.paramSlide);
+          case 'poly': return this.createPolyVoice(track, pLocks, time, note, velocity, articulation?.paramSlide);
+          case 'bass': return this.createBassVoice(track, pLocks, time, note, velocity, articulation);
+          case 'modal': return this.createModalVoice(track, pLocks, time, note, velocity, articulation?.paramSlide);
+          case 'rift': return this.createRiftVoice(track, pLocks, time, note, velocity, articulation?.paramSlide);
+          case 'grain': return this.createGrainVoice(track, pLocks, time, note, velocity, articulation?.paramSlide);
+          case 'scream': return this.createScreamVoice(track, pLocks, time, note, velocity, articulation?.paramSlide);
+          case 'sample': return this.createSampleVoice(track, pLocks, time, note, velocity, articulation?.paramSlide);
       }
   }
 }
 
+// `pLocks` without the lock on `param`, a top-level param or a dotted path like `filter.cutoff`;
+// null once nothing is locked
+const removeParamLock = (pLocks: PLocks, paramsKey: keyof PLocks, param: string, base: Record<string, any>): PLocks | null => {
+  const [topLevel, nested] = param.split('.');
+  const { [topLevel]: locked, ...otherParams } = (pLocks[paramsKey] || {}) as Record<string, any>;
+  if (locked === undefined) return pLocks;
+  if (nested !== undefined) {
+    // A nested lock holds the whole object, so the field goes back to the track's value rather than missing
+    const fields = { ...locked, [nested]: base[topLevel]?.[nested] };
+    if (Object.keys(fields).some(key => fields[key] !== base[topLevel]?.[key])) otherParams[topLevel] = fields;
+  }
+  const { [paramsKey]: _, ...otherLocks } = pLocks;
+  const next: PLocks = Object.keys(otherParams).length > 0 ? { ...otherLocks, [paramsKey]: otherParams } : otherLocks;
+  return Object.keys(next).length > 0 ? next : null;
+};
+
 
 function App() {
+  const [restoredProject] = useState<ProjectState | null>(loadProjectFromStorage);
   const [isPlaying, setIsPlaying] = useState(false);
-  const [bpm, setBpm] = useState(120);
-  const [tracks, setTracks] = useState<Track[]>(INITIAL_TRACKS);
-  const [currentStep, setCurrentStep] = useState(-1);
+  const [bpm, setBpm] = useState(restoredProject?.bpm ?? 120);
+  const [swing, setSwing] = useState(restoredProject?.swing ?? 50);
+  const [seed, setSeed] = useState(restoredProject?.seed ?? 1);
+  const [scale, setScale] = useState<ProjectScale>(restoredProject?.scale ?? DEFAULT_SCALE);
+  const [transpose, setTranspose] = useState(restoredProject?.transpose ?? 0);
+  const [randomizer, setRandomizer] = useState<RandomizerSettings>(restoredProject?.randomizer ?? DEFAULT_RANDOMIZER_SETTINGS);
+  const [fillActive, setFillActive] = useState(false);
+  const [tracks, setTracks] = useState<Track[]>(restoredProject?.tracks ?? INITIAL_TRACKS);
+  // Playhead position of each track, indexed by track id; empty while stopped
+  const [currentSteps, setCurrentSteps] = useState<number[]>([]);
   const [selectedTrackId, setSelectedTrackId] = useState(0);
-  const [selectedTab, setSelectedTab] = useState<'synth' | 'fx' | 'mixer'>('synth');
+  const [selectedTab, setSelectedTab] = useState<'synth' | 'fx' | 'mixer' | 'kits' | 'samples' | 'midi'>('synth');
   
-  const [mutedTracks, setMutedTracks] = useState<Set<number>>(new Set());
-  const [soloedTrackId, setSoloedTrackId] = useState<number | null>(null);
+  const [mutedTracks, setMutedTracks] = useState<Set<number>>(() => new Set(restoredProject?.mutedTracks ?? []));
+  const [soloedTrackId, setSoloedTrackId] = useState<number | null>(restoredProject?.soloedTrackId ?? null);
   
   const [pLockModeActive, setPLockModeActive] = useState(false);
   const [pLockEditStep, setPLockEditStep] = useState<{trackId: number, stepIndex: number} | null>(null);
 
-  const [globalFxParams, setGlobalFxParams] = useState<GlobalFXParams>({
-      reverb: { decay: 0.5, mix: 0.3, preDelay: 0.02, preDelaySync: false, preDelayDivision: 0.25 },
-      delay: { time: 0.3, feedback: 0.4, mix: 0.3, timeSync: true, timeDivision: 0.75 },
-      drive: { amount: 20, tone: 8000, mix: 0.1 },
-      compressor: { threshold: -24, ratio: 4, knee: 10, attack: 0.003, release: 0.25, makeup: 3 },
-  });
+  const [globalFxParams, setGlobalFxParams] = useState<GlobalFXParams>(restoredProject?.globalFxParams ?? INITIAL_GLOBAL_FX_PARAMS);
+
+  const [patterns, setPatterns] = useState<Pattern[]>(() => restoredProject?.patterns ?? createPatternBank(INITIAL_TRACKS));
+  const [currentPatternIndex, setCurrentPatternIndex] = useState(restoredProject?.currentPatternIndex ?? 0);
+  const [queuedPatternIndex, setQueuedPatternIndex] = useState<number | null>(null);
+  const [chain, setChain] = useState<ChainEntry[]>(restoredProject?.chain ?? []);
+  const [songMode, setSongMode] = useState(restoredProject?.songMode ?? false);
+  const [patternClipboard, setPatternClipboard] = useState<Pattern | null>(null);
+
+  const [midiEngine] = useState(() => new MidiEngine());
+  const [midiEnabled, setMidiEnabled] = useState(false);
+  const [midiInputs, setMidiInputs] = useState<MidiPortInfo[]>([]);
+  const [midiOutputs, setMidiOutputs] = useState<MidiPortInfo[]>([]);
+  const [clockMode, setClockMode] = useState<ClockMode>('off');
+  const [clockInputId, setClockInputId] = useState<string | null>(null);
+  const [clockOutputId, setClockOutputId] = useState<string | null>(null);
+  const [noteInputId, setNoteInputId] = useState<string | null>(null);
+  const [midiNoteMap, setMidiNoteMap] = useState<MidiNoteMapEntry[]>(restoredProject?.midiNoteMap ?? DEFAULT_MIDI_NOTE_MAP);
+  const [recordArmed, setRecordArmed] = useState(false);
+  const [recordQuantize, setRecordQuantize] = useState(true);
+  const [motionPunchedIn, setMotionPunchedIn] = useState(false);
+  const [lastTouchedParam, setLastTouchedParam] = useState<string | null>(null); // full path, e.g. `filter.cutoff`
+  const [storedUserPresets] = useState(loadUserPresets);
+  const [userPresets, setUserPresets] = useState<SoundPreset[]>(storedUserPresets?.presets ?? []);
+  const [storedKits] = useState(loadKits);
+  const [kits, setKits] = useState<Kit[]>(storedKits?.kits ?? []);
+  const [samples, setSamples] = useState<SampleInfo[]>([]);
+  const [midiCCMappings, setMidiCCMappings] = useState<MidiCCMapping[]>(restoredProject?.midiCCMappings ?? []);
+  const [midiLearnActive, setMidiLearnActive] = useState(false);
+  const [midiLearnSelection, setMidiLearnSelection] = useState<{ target: MidiCCTarget; range: MidiLearnRange } | null>(null);
 
   const audioEngine = useRef<AudioEngine | null>(null);
+  const projectFileInput = useRef<HTMLInputElement>(null);
   const schedulerTimer = useRef<number | null>(null);
-  const nextNoteTime = useRef(0);
+  const [stepClock] = useState(() => new StepClock());
+  // Most recently scheduled step, used to place live input on the step grid
+  const stepAnchor = useRef<{ time: number; stepDuration: number; trackSteps: number[] }>({ time: 0, stepDuration: 0.125, trackSteps: [] });
+  const playingPatternIndex = useRef<number | null>(null);
+  const chainPosition = useRef<ChainPosition | null>(null);
+  // Last CC value sent per `output:channel:controller`, so unchanged values are not resent every step
+  const lastSentCC = useRef(new Map<string, number>());
+
+  // Mirrors of state the scheduler and pattern switching read between renders
+  const tracksRef = useRef(tracks);
+  const patternsRef = useRef(patterns);
+  const currentPatternIndexRef = useRef(currentPatternIndex);
+  const globalFxParamsRef = useRef(globalFxParams);
+  const bpmRef = useRef(bpm);
+  tracksRef.current = tracks;
+  patternsRef.current = patterns;
+  currentPatternIndexRef.current = currentPatternIndex;
+  globalFxParamsRef.current = globalFxParams;
+  bpmRef.current = bpm;
   const lookahead = 25.0; // ms
   const scheduleAheadTime = 0.1; // sec
 
@@ -923,53 +1237,342 @@ function App() {
       audioEngine.current = new AudioEngine();
       return () => {
           if (schedulerTimer.current) clearInterval(schedulerTimer.current);
+          audioEngine.current?.stopAllBassVoices();
           audioEngine.current?.getContext().close();
       };
   }, []);
 
+  const switchPattern = useCallback((index: number) => {
+    const fromIndex = currentPatternIndexRef.current;
+    if (index === fromIndex) return;
+    const newPatterns = storePattern(patternsRef.current, fromIndex, tracksRef.current);
+    const newTracks = applyPattern(tracksRef.current, newPatterns[index]);
+    patternsRef.current = newPatterns;
+    tracksRef.current = newTracks;
+    currentPatternIndexRef.current = index;
+    setPatterns(newPatterns);
+    setTracks(newTracks);
+    setCurrentPatternIndex(index);
+    setPLockEditStep(null);
+  }, []);
+
+  // --- Undo / redo ---
+
+  const editHistory = useRef(createHistory());
+
+  const getHistorySnapshot = (): HistorySnapshot => ({
+    tracks: tracksRef.current,
+    globalFxParams: globalFxParamsRef.current,
+    bpm: bpmRef.current,
+    patternIndex: currentPatternIndexRef.current,
+    patternTranspose: patternsRef.current[currentPatternIndexRef.current]?.transpose ?? 0,
+  });
+
+  // Call before every undoable edit; repeated edits with the same `key` collapse into one entry
+  const recordHistory = useCallback((key: string | null = null) => {
+    editHistory.current = recordEdit(editHistory.current, getHistorySnapshot(), key, performance.now());
+  }, []);
+
+  const restoreSnapshot = useCallback((snapshot: HistorySnapshot) => {
+    let restoredTracks = snapshot.tracks;
+    let newPatterns = patternsRef.current;
+    if (snapshot.patternIndex !== currentPatternIndexRef.current) {
+        // The edit was made in another pattern: its steps go back to the bank, the current pattern keeps its own
+        newPatterns = storePattern(newPatterns, snapshot.patternIndex, snapshot.tracks);
+        restoredTracks = applyPattern(snapshot.tracks, capturePattern(tracksRef.current));
+    }
+    newPatterns = setPatternTranspose(newPatterns, snapshot.patternIndex, snapshot.patternTranspose);
+    patternsRef.current = newPatterns;
+    setPatterns(newPatterns);
+    tracksRef.current = restoredTracks;
+    setTracks(restoredTracks);
+    setGlobalFxParams(snapshot.globalFxParams);
+    setBpm(snapshot.bpm);
+  }, []);
+
+  const handleUndo = useCallback(() => {
+    const result = undoEdit(editHistory.current, getHistorySnapshot());
+    if (!result) return;
+    editHistory.current = result.history;
+    restoreSnapshot(result.snapshot);
+  }, [restoreSnapshot]);
+
+  const handleRedo = useCallback(() => {
+    const result = redoEdit(editHistory.current, getHistorySnapshot());
+    if (!result) return;
+    editHistory.current = result.history;
+    restoreSnapshot(result.snapshot);
+  }, [restoreSnapshot]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+        if (!(e.ctrlKey || e.metaKey) || e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+        const key = e.key.toLowerCase();
+        if (key === 'z' && !e.shiftKey) handleUndo();
+        else if ((key === 'z' && e.shiftKey) || key === 'y') handleRedo();
+        else return;
+        e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  const handleBpmChange = useCallback((value: number) => {
+    recordHistory('bpm');
+    setBpm(value);
+  }, [recordHistory]);
+
+  const sendTrackMidi = useCallback((track: Track, step: StepState, note: string, time: number, velocity: number, noteLength: number) => {
+    const midiOut = track.midiOut;
+    if (!audioEngine.current || !midiOut?.outputId) return;
+    const outputId = midiOut.outputId;
+    const timestamp = audioTimeToMidiTime(audioEngine.current.getContext(), time);
+    getTrackCCValues(track, step.pLocks, midiCCMappings).forEach(({ controller, value }) => {
+        const key = `${outputId}:${midiOut.channel}:${controller}`;
+        if (lastSentCC.current.get(key) === value) return;
+        lastSentCC.current.set(key, value);
+        midiEngine.sendControlChange(outputId, midiOut.channel, controller, value, timestamp);
+    });
+    midiEngine.sendNote(outputId, midiOut.channel, noteNameToMidi(note), velocity * 127, timestamp, midiOut.gate * noteLength * 1000);
+  }, [midiCCMappings, midiEngine]);
+
+  const isTrackAudible = (trackId: number) => soloedTrackId === null ? !mutedTracks.has(trackId) : trackId === soloedTrackId;
+
+  // Schedules everything that sounds on the clock's next step at `time`, then advances the clock
+  const scheduleStep = useCallback((time: number) => {
+    stepClock.setTempo(bpm);
+    const stepDuration = stepClock.getStepDuration();
+
+    // Pattern changes (queued or from the chain) only happen when a pass of the pattern ends
+    if (stepClock.isPatternStart() || playingPatternIndex.current === null) {
+        const previousPattern = playingPatternIndex.current;
+        let nextPattern = previousPattern ?? currentPatternIndexRef.current;
+        if (songMode && chain.length > 0) {
+            chainPosition.current = advanceChainPosition(chain, chainPosition.current);
+            nextPattern = chain[chainPosition.current.entryIndex].patternIndex;
+        } else if (queuedPatternIndex !== null) {
+            nextPattern = queuedPatternIndex;
+            setQueuedPatternIndex(null);
+        }
+        playingPatternIndex.current = nextPattern;
+        if (nextPattern !== currentPatternIndexRef.current) switchPattern(nextPattern);
+        if (previousPattern !== null && nextPattern !== previousPattern) stepClock.resetTrackPositions();
+    }
+
+    const patternTracks = getPatternTracks(tracksRef.current, patternsRef.current, currentPatternIndexRef.current, playingPatternIndex.current);
+    const trackSteps = stepClock.getTrackSteps(patternTracks);
+    stepAnchor.current = { time, stepDuration, trackSteps };
+
+    const patternTranspose = patternsRef.current[playingPatternIndex.current]?.transpose ?? 0;
+    stepClock.getTrigs(patternTracks, isTrackAudible, { swing, fill: fillActive, scale, transpose: transpose + patternTranspose }).forEach(({ track, step, notes, time: trigTime, velocity, articulation }) => {
+        const sendsMidi = !!track.midiOut?.outputId;
+        notes.forEach(note => {
+            if (!sendsMidi || track.midiOut.internal) {
+                audioEngine.current?.trigger(track, step.pLocks, trigTime, note, velocity, articulation);
+            }
+            if (sendsMidi) sendTrackMidi(track, step, note, trigTime, velocity, articulation.length);
+        });
+    });
+    stepClock.advance(patternTracks);
+
+    setCurrentSteps(trackSteps);
+  }, [bpm, swing, fillActive, scale, transpose, mutedTracks, soloedTrackId, songMode, chain, queuedPatternIndex, switchPattern, sendTrackMidi, stepClock]);
+
   const scheduleNotes = useCallback(() => {
     if (!audioEngine.current) return;
     const context = audioEngine.current.getContext();
     const currentContextTime = context.currentTime;
     
-    while (nextNoteTime.current < currentContextTime + scheduleAheadTime) {
-        const stepTime = 60.0 / bpm / 4;
-        const localCurrentStep = Math.floor(nextNoteTime.current / stepTime) % 16;
-        
-        tracks.forEach(track => {
-            const isAudible = soloedTrackId === null ? !mutedTracks.has(track.id) : track.id === soloedTrackId;
-            if (!isAudible) return;
-
-            const localStepIndex = localCurrentStep % track.patternLength;
-            const step = track.steps[localStepIndex];
-            
-            if (step && step.active) {
-                const note = step.note || track.defaultNote;
-                audioEngine.current?.trigger(track, step.pLocks, nextNoteTime.current, note, step.velocity);
-            }
-        });
-        
-        setCurrentStep(localCurrentStep);
-        nextNoteTime.current += stepTime;
+    stepClock.setTempo(bpm);
+    while (stepClock.getNextTime() < currentContextTime + scheduleAheadTime) {
+        const time = stepClock.getNextTime();
+        midiEngine.sendStepClock(audioTimeToMidiTime(context, time), stepClock.getStepDuration() * 1000);
+        scheduleStep(time);
     }
-  }, [tracks, bpm, mutedTracks, soloedTrackId]);
+  }, [bpm, scheduleStep, midiEngine, stepClock]);
+
+  // The interval and MIDI callbacks always run the latest scheduler so edits made while playing are heard
+  const scheduleNotesRef = useRef(scheduleNotes);
+  scheduleNotesRef.current = scheduleNotes;
+  const scheduleStepRef = useRef(scheduleStep);
+  scheduleStepRef.current = scheduleStep;
+
+  const resetPlaybackPosition = (startTime: number, stepPosition: number) => {
+    stepClock.reset(startTime, bpm, tracksRef.current, seed, stepPosition);
+    lastSentCC.current.clear();
+    playingPatternIndex.current = null;
+    chainPosition.current = null;
+  };
+
+  const resetPlaybackPositionRef = useRef(resetPlaybackPosition);
+  resetPlaybackPositionRef.current = resetPlaybackPosition;
+
+  const handleClockStart = (stepPosition: number) => {
+      if (!audioEngine.current) return;
+      audioEngine.current.resume();
+      resetPlaybackPosition(audioEngine.current.getContext().currentTime, stepPosition);
+      setIsPlaying(true);
+  };
+  const clockStartRef = useRef(handleClockStart);
+  clockStartRef.current = handleClockStart;
 
   const togglePlayback = useCallback(() => {
     if (isPlaying) {
         setIsPlaying(false);
-        setCurrentStep(-1);
+        setCurrentSteps([]);
+        setQueuedPatternIndex(null);
         if (schedulerTimer.current) {
             clearInterval(schedulerTimer.current);
             schedulerTimer.current = null;
         }
+        audioEngine.current?.stopAllBassVoices();
+        midiEngine.sendStop();
     } else {
-        if (!audioEngine.current) return;
+        if (!audioEngine.current || clockMode === 'follow') return;
         audioEngine.current.resume();
-        nextNoteTime.current = audioEngine.current.getContext().currentTime;
+        const context = audioEngine.current.getContext();
+        resetPlaybackPosition(context.currentTime, 0);
+        midiEngine.sendStart(audioTimeToMidiTime(context, context.currentTime));
         setIsPlaying(true);
-        schedulerTimer.current = window.setInterval(scheduleNotes, lookahead);
+        schedulerTimer.current = window.setInterval(() => scheduleNotesRef.current(), lookahead);
     }
-  }, [isPlaying, scheduleNotes]);
+  }, [isPlaying, clockMode, midiEngine, bpm, seed]);
+
+  // Step of `track` that plays at `time`, counted from the last scheduled step
+  const getStepAtTime = useCallback((track: Track, time: number, quantize: boolean) => {
+      const anchor = stepAnchor.current;
+      const offset = (time - anchor.time) / anchor.stepDuration;
+      const stepOffset = quantize ? Math.round(offset) : Math.floor(offset);
+      return (((anchor.trackSteps[track.id] ?? 0) + stepOffset) % track.patternLength + track.patternLength) % track.patternLength;
+  }, []);
+
+  // --- MIDI ---
+
+  const handleMidiNoteOn = (channel: number, note: number, velocity: number, timeStamp: number) => {
+      if (!audioEngine.current) return;
+      const time = midiTimeToAudioTime(audioEngine.current.getContext(), timeStamp);
+      const normalizedVelocity = velocity / 127;
+      const matches = midiNoteMap.filter(entry => (entry.channel === null || entry.channel === channel) && (entry.note === null || entry.note === note));
+
+      matches.forEach(entry => {
+          const track = tracksRef.current.find(t => t.id === entry.trackId);
+          if (!track) return;
+          const noteName = entry.note === null ? midiToNoteName(track.snapToScale ? snapToScale(note, scale) : note) : track.defaultNote;
+          audioEngine.current?.trigger(track, null, time, noteName, normalizedVelocity);
+
+          if (!recordArmed || !isPlaying) return;
+          recordHistory('record');
+          const stepIndex = getStepAtTime(track, time, recordQuantize);
+          setTracks(currentTracks => currentTracks.map(t => {
+              if (t.id !== track.id) return t;
+              const newSteps = [...t.steps];
+              const step = newSteps[stepIndex];
+              newSteps[stepIndex] = { ...step, active: true, note: entry.note === null ? noteName : step.note, velocity: normalizedVelocity };
+              return { ...t, steps: newSteps };
+          }));
+      });
+  };
+  const midiNoteOnRef = useRef(handleMidiNoteOn);
+  midiNoteOnRef.current = handleMidiNoteOn;
+
+  const applyCCTarget = (target: MidiCCTarget, value: number) => {
+      if (target.scope === 'fx') {
+          const [fx, param] = target.path.split('.');
+          handleGlobalFxChange(fx as keyof GlobalFXParams, param, value);
+          return;
+      }
+      const lockStepIndex = pLockModeActive && pLockEditStep && pLockEditStep.trackId === target.trackId ? pLockEditStep.stepIndex : null;
+      if (target.scope === 'mixer') {
+          updateMixerParam(target.trackId, target.path, value, lockStepIndex);
+      } else {
+          updateTrackParam(target.trackId, target.path, value, lockStepIndex);
+      }
+  };
+
+  const handleMidiControlChange = (channel: number, controller: number, value: number) => {
+      if (midiLearnActive && midiLearnSelection) {
+          const { target, range } = midiLearnSelection;
+          setMidiCCMappings(current => addCCMapping(current, { channel, controller, target, ...range }));
+          setMidiLearnSelection(null);
+          return;
+      }
+      midiCCMappings
+          .filter(mapping => mapping.channel === channel && mapping.controller === controller)
+          .forEach(mapping => applyCCTarget(mapping.target, ccToParamValue(mapping, value)));
+  };
+  const midiControlChangeRef = useRef(handleMidiControlChange);
+  midiControlChangeRef.current = handleMidiControlChange;
+
+  const midiLearnState = useMemo((): MidiLearnState => ({
+      active: midiLearnActive,
+      selectedKey: midiLearnSelection ? getTargetKey(midiLearnSelection.target) : null,
+      mappedKeys: new Set(midiCCMappings.map(mapping => getTargetKey(mapping.target))),
+      onSelect: (target, range) => setMidiLearnSelection({ target, range }),
+  }), [midiLearnActive, midiLearnSelection, midiCCMappings]);
+
+  useEffect(() => {
+      midiEngine.setCallbacks({
+          onPortsChange: (inputs, outputs) => {
+              setMidiInputs(inputs);
+              setMidiOutputs(outputs);
+          },
+          onClockStart: (stepPosition) => clockStartRef.current(stepPosition),
+          onClockStep: (stepPosition, timeStamp) => {
+              if (!audioEngine.current) return;
+              const time = midiTimeToAudioTime(audioEngine.current.getContext(), timeStamp);
+              // A song position jump re-anchors the clock; otherwise every clock step advances it by one
+              if (stepPosition !== stepClock.getTick()) resetPlaybackPositionRef.current(time, stepPosition);
+              stepClock.syncTime(time);
+              scheduleStepRef.current(time);
+          },
+          onClockStop: () => {
+              audioEngine.current?.stopAllBassVoices();
+              setIsPlaying(false);
+              setCurrentSteps([]);
+              setQueuedPatternIndex(null);
+          },
+          onClockTempo: (newBpm) => setBpm(Math.max(30, Math.min(250, newBpm))),
+          onNoteOn: (channel, note, velocity, timeStamp) => midiNoteOnRef.current(channel, note, velocity, timeStamp),
+          onControlChange: (channel, controller, value) => midiControlChangeRef.current(channel, controller, value),
+      });
+      return () => midiEngine.setAccess(null);
+  }, [midiEngine]);
+
+  const handleEnableMidi = useCallback(async () => {
+      const access = await requestMidiAccess();
+      if (!access) {
+          alert('Web MIDI is not available in this browser, or access was denied.');
+          return;
+      }
+      midiEngine.setAccess(access);
+      setMidiEnabled(true);
+  }, [midiEngine]);
+
+  const handleClockModeChange = useCallback((mode: ClockMode) => {
+      if (isPlaying) togglePlayback();
+      midiEngine.setClockMode(mode);
+      setClockMode(mode);
+  }, [isPlaying, togglePlayback, midiEngine]);
+
+  const handleClockInputChange = useCallback((id: string | null) => {
+      midiEngine.setClockInput(id);
+      setClockInputId(id);
+  }, [midiEngine]);
+
+  const handleClockOutputChange = useCallback((id: string | null) => {
+      midiEngine.setClockOutput(id);
+      setClockOutputId(id);
+  }, [midiEngine]);
+
+  const handleTrackMidiOutChange = useCallback((trackId: number, midiOut: TrackMidiOut) => {
+      recordHistory(`midiOut:${trackId}`);
+      setTracks(ts => ts.map(t => t.id === trackId ? { ...t, midiOut } : t));
+  }, []);
+
+  const handleNoteInputChange = useCallback((id: string | null) => {
+      midiEngine.setNoteInput(id);
+      setNoteInputId(id);
+  }, [midiEngine]);
 
   useEffect(() => {
       if (audioEngine.current) {
@@ -980,6 +1583,234 @@ function App() {
       }
   }, [globalFxParams, bpm]);
 
+  const getProjectState = useCallback((): ProjectState => ({
+      bpm,
+      swing,
+      seed,
+      scale,
+      transpose,
+      randomizer,
+      tracks,
+      globalFxParams,
+      mutedTracks: Array.from(mutedTracks),
+      soloedTrackId,
+      patterns,
+      currentPatternIndex,
+      chain,
+      songMode,
+      midiNoteMap,
+      midiCCMappings,
+  }), [bpm, swing, seed, scale, transpose, randomizer, tracks, globalFxParams, mutedTracks, soloedTrackId, patterns, currentPatternIndex, chain, songMode, midiNoteMap, midiCCMappings]);
+
+  useEffect(() => {
+      const timeout = window.setTimeout(() => saveProjectToStorage(getProjectState()), 500);
+      return () => clearTimeout(timeout);
+  }, [getProjectState]);
+
+  // --- Presets ---
+
+  const presets = useMemo(() => [...FACTORY_PRESETS, ...userPresets], [userPresets]);
+
+  // Nothing is written until the presets change, and never over a stored list that could not be read
+  useEffect(() => {
+      if (storedUserPresets && userPresets !== storedUserPresets.presets) saveUserPresets(userPresets, storedUserPresets.unreadable);
+  }, [userPresets]);
+
+  const handlePresetLoad = useCallback((preset: SoundPreset) => {
+      const track = tracksRef.current.find(t => t.id === selectedTrackId);
+      if (!track) return;
+      try {
+          const loaded = applyPreset(track, preset);
+          recordHistory();
+          setTracks(currentTracks => currentTracks.map(t => t.id === loaded.id ? { ...t, params: loaded.params } : t));
+      } catch (err) {
+          alert(`Could not load preset: ${err instanceof Error ? err.message : err}`);
+      }
+  }, [selectedTrackId]);
+
+  const handlePresetSave = useCallback((name: string, tags: string[]) => {
+      const track = tracksRef.current.find(t => t.id === selectedTrackId);
+      if (track) setUserPresets(current => [...current, createPreset(track, name, tags)]);
+  }, [selectedTrackId]);
+
+  const handlePresetDelete = useCallback((presetId: string) => {
+      setUserPresets(current => current.filter(p => p.id !== presetId));
+  }, []);
+
+  // The steps stay; the track starts over from the new engine's initial sound
+  const handleTrackTypeChange = useCallback((type: TrackType) => {
+      recordHistory();
+      setTracks(currentTracks => currentTracks.map(t => t.id === selectedTrackId ? { ...t, type, params: INITIAL_ENGINE_PARAMS[type] } : t));
+  }, [selectedTrackId]);
+
+  // The bass keeps its voice running between notes, so a track that leaves the bass engine (by a switch,
+  // a kit, a sample assignment, undo or a loaded project) has it stopped here
+  const trackTypes = tracks.map(t => t.type).join(',');
+  useEffect(() => {
+      tracksRef.current.forEach(t => { if (t.type !== 'bass') audioEngine.current?.stopBassVoice(t.id); });
+  }, [trackTypes]);
+
+  useEffect(() => {
+      loadSampleInfos().then(setSamples).catch(err => console.error('Could not load the sample library', err));
+  }, []);
+
+  // Sample tracks name their audio by hash; whatever they name is read back from the library and
+  // decoded, so loaded projects, presets and kits find their samples again
+  const referencedSampleIds = tracks.flatMap(t => t.type === 'sample' && (t.params as SampleParams).sampleId ? [(t.params as SampleParams).sampleId] : []).join(',');
+  useEffect(() => {
+      const engine = audioEngine.current;
+      if (!engine || referencedSampleIds === '') return;
+      referencedSampleIds.split(',').filter(id => !engine.hasSample(id)).forEach(async id => {
+          try {
+              if (!await engine.loadSample(id)) console.warn(`Sample ${id} is not in the library`);
+          } catch (err) {
+              console.error(`Could not load sample ${id}`, err);
+          }
+      });
+  }, [referencedSampleIds]);
+
+  const importSamples = useCallback(async (files: File[]): Promise<SampleInfo[]> => {
+      const engine = audioEngine.current;
+      if (!engine) return [];
+      const imported: SampleInfo[] = [];
+      for (const file of files) {
+          try {
+              const { info, sample } = await importSampleFile(file, data => engine.decodeSample(data));
+              engine.setSample(info.id, sample);
+              imported.push(info);
+          } catch (err) {
+              console.error('Could not import sample', err);
+              alert(`Could not import sample: ${err instanceof Error ? err.message : err}`);
+          }
+      }
+      setSamples(current => [...current.filter(s => !imported.some(i => i.id === s.id)), ...imported].sort((a, b) => a.name.localeCompare(b.name)));
+      return imported;
+  }, []);
+
+  // A track on another engine is switched to the sample engine first
+  const handleSampleAssign = useCallback((sample: SampleInfo, trackId = selectedTrackId) => {
+      recordHistory();
+      setTracks(currentTracks => currentTracks.map(t => {
+          if (t.id !== trackId) return t;
+          const params = (t.type === 'sample' ? t.params : INITIAL_ENGINE_PARAMS.sample) as SampleParams;
+          return { ...t, type: 'sample', params: { ...params, sampleId: sample.id, sampleName: sample.name } };
+      }));
+  }, [selectedTrackId]);
+
+  const handleSampleLoad = useCallback(async (file: File) => {
+      const trackId = selectedTrackId;
+      const [sample] = await importSamples([file]);
+      if (sample) handleSampleAssign(sample, trackId);
+  }, [selectedTrackId, importSamples, handleSampleAssign]);
+
+  // Only samples used by a track are decoded on load, so others are read from the library on first listen
+  const handleSampleAudition = useCallback(async (sample: SampleInfo) => {
+      const engine = audioEngine.current;
+      if (!engine) return;
+      engine.resume();
+      try {
+          if (!await engine.loadSample(sample.id)) throw new Error(`${sample.name} is missing from the library`);
+          engine.auditionSample(sample.id);
+      } catch (err) {
+          console.error('Could not play sample', err);
+          alert(`Could not play sample: ${err instanceof Error ? err.message : err}`);
+      }
+  }, []);
+
+  const handleSampleDelete = useCallback(async (sampleId: string) => {
+      try {
+          await deleteSample(sampleId);
+          setSamples(current => current.filter(s => s.id !== sampleId));
+      } catch (err) {
+          console.error('Could not delete sample', err);
+          alert(`Could not delete sample: ${err instanceof Error ? err.message : err}`);
+      }
+  }, []);
+
+  // Nothing is written until the kits change, and never over a stored list that could not be read
+  useEffect(() => {
+      if (storedKits && kits !== storedKits.kits) saveKits(kits, storedKits.unreadable);
+  }, [kits]);
+
+  const handleKitSave = useCallback((name: string) => {
+      setKits(current => [...current, createKit(name, tracksRef.current, globalFxParamsRef.current)]);
+  }, []);
+
+  // Only the sound changes; steps, lengths and patterns stay, so the groove plays on through the new kit
+  const handleKitLoad = useCallback((kit: Kit) => {
+      recordHistory();
+      setTracks(currentTracks => applyKit(currentTracks, kit));
+      setGlobalFxParams(kit.globalFxParams);
+  }, []);
+
+  const handleKitImport = useCallback(async (file: File) => {
+      try {
+          const kit = await readKitFile(file);
+          setKits(current => [...current, kit]);
+      } catch (err) {
+          console.error('Could not import kit', err);
+          alert(`Could not import kit: ${err instanceof Error ? err.message : err}`);
+      }
+  }, []);
+
+  const applyProjectState = useCallback((project: ProjectState) => {
+      setBpm(project.bpm);
+      setSwing(project.swing);
+      setSeed(project.seed);
+      setScale(project.scale);
+      setTranspose(project.transpose);
+      setRandomizer(project.randomizer);
+      setTracks(project.tracks);
+      setGlobalFxParams(project.globalFxParams);
+      setMutedTracks(new Set(project.mutedTracks));
+      setSoloedTrackId(project.soloedTrackId);
+      setPatterns(project.patterns);
+      setCurrentPatternIndex(project.currentPatternIndex);
+      setQueuedPatternIndex(null);
+      setChain(project.chain);
+      setSongMode(project.songMode);
+      setMidiNoteMap(project.midiNoteMap);
+      setMidiCCMappings(project.midiCCMappings);
+      editHistory.current = createHistory();
+      setPLockEditStep(null);
+  }, []);
+
+  const handlePatternSelect = useCallback((index: number) => {
+      if (isPlaying) {
+          setQueuedPatternIndex(current => current === index ? null : index);
+      } else {
+          switchPattern(index);
+      }
+  }, [isPlaying, switchPattern]);
+
+  const handlePatternCopy = useCallback(() => setPatternClipboard(capturePattern(tracks, patterns[currentPatternIndex]?.transpose)), [tracks, patterns, currentPatternIndex]);
+
+  const handlePatternPaste = useCallback(() => {
+      if (!patternClipboard) return;
+      recordHistory();
+      setTracks(currentTracks => applyPattern(currentTracks, patternClipboard));
+      setPatterns(currentPatterns => setPatternTranspose(currentPatterns, currentPatternIndexRef.current, patternClipboard.transpose));
+  }, [patternClipboard]);
+
+  const handlePatternClear = useCallback(() => {
+      recordHistory();
+      setTracks(currentTracks => applyPattern(currentTracks, createEmptyPattern(currentTracks.length)));
+      setPatterns(currentPatterns => setPatternTranspose(currentPatterns, currentPatternIndexRef.current, 0));
+      setPLockEditStep(null);
+  }, []);
+
+  const handleProjectImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          applyProjectState(await readProjectFile(file));
+      } catch (err) {
+          console.error('Could not load project', err);
+          alert(`Could not load project: ${err instanceof Error ? err.message : err}`);
+      }
+  };
+
   const handleStepClick = useCallback((trackId: number, stepIndex: number) => {
     if (pLockModeActive) {
       if (pLockEditStep?.trackId === trackId && pLockEditStep?.stepIndex === stepIndex) {
@@ -988,6 +1819,7 @@ function App() {
          setPLockEditStep({ trackId, stepIndex });
       }
     } else {
+        recordHistory();
         setTracks(currentTracks =>
             currentTracks.map(track => {
                 if (track.id === trackId) {
@@ -1000,13 +1832,30 @@ function App() {
             })
         );
     }
-  }, [pLockModeActive, pLockEditStep]);
+  }, [pLockModeActive, pLockEditStep, recordHistory]);
   
   const handlePatternLengthChange = useCallback((trackId: number, length: number) => {
+    recordHistory(`length:${trackId}`);
     setTracks(currentTracks => currentTracks.map(track => track.id === trackId ? { ...track, patternLength: length } : track));
   }, []);
   
+  const handleChordMemoryChange = useCallback((trackId: number, chordMemory: StepChord | undefined) => {
+    recordHistory();
+    setTracks(currentTracks => currentTracks.map(track => track.id === trackId ? { ...track, chordMemory } : track));
+  }, []);
+
+  const handleVoiceLimitChange = useCallback((trackId: number, voiceLimit: number) => {
+    recordHistory(`voices:${trackId}`);
+    setTracks(currentTracks => currentTracks.map(track => track.id === trackId ? { ...track, voiceLimit } : track));
+  }, []);
+
+  const handleGrooveChange = useCallback((trackId: number, grooveId: string | undefined) => {
+    recordHistory();
+    setTracks(currentTracks => currentTracks.map(track => track.id === trackId ? { ...track, grooveId } : track));
+  }, []);
+
   const handleStepPropertyChange = useCallback((trackId: number, stepIndex: number, prop: keyof StepState, value: any) => {
+    recordHistory(`step:${trackId}:${stepIndex}:${prop}`);
     setTracks(currentTracks => currentTracks.map(track => {
       if (track.id === trackId) {
         const newSteps = [...track.steps];
@@ -1017,43 +1866,102 @@ function App() {
     }));
   }, []);
 
-  const handleParamChange = useCallback((param: string, value: any) => {
+  // `param` is a top-level instrument param or a one-level dotted path like `filter.cutoff`.
+  // With a `lockStepIndex` the value is written as a p-lock on that step instead.
+  const updateTrackParam = useCallback((trackId: number, param: string, value: any, lockStepIndex: number | null, historyKey = `param:${trackId}:${param}:${lockStepIndex}`) => {
+    const [topLevel, nested] = param.split('.');
+    recordHistory(historyKey);
     setTracks(currentTracks =>
         currentTracks.map(track => {
-            if (track.id === selectedTrackId) {
-                if (pLockModeActive && pLockEditStep) {
-                    const { stepIndex } = pLockEditStep;
+            if (track.id === trackId) {
+                const trackParamsKey = `${track.type}Params` as keyof PLocks;
+                if (lockStepIndex !== null) {
                     const newSteps = [...track.steps];
-                    const currentStep = newSteps[stepIndex];
+                    const currentStep = newSteps[lockStepIndex];
                     const pLocks = currentStep.pLocks || {};
-                    const trackParamsKey = `${track.type}Params` as keyof PLocks;
+                    const lockedParams = (pLocks[trackParamsKey] || {}) as Record<string, any>;
+                    const newValue = nested === undefined
+                        ? value
+                        : { ...(lockedParams[topLevel] ?? (track.params as Record<string, any>)[topLevel]), [nested]: value };
                     
                     const newPLocks: PLocks = {
                       ...pLocks,
                       [trackParamsKey]: {
-                        ...(pLocks[trackParamsKey] || {}),
-                        [param]: value
+                        ...lockedParams,
+                        [topLevel]: newValue
                       }
                     };
 
-                    newSteps[stepIndex] = { ...currentStep, pLocks: newPLocks };
+                    newSteps[lockStepIndex] = { ...currentStep, pLocks: newPLocks };
                     return { ...track, steps: newSteps };
                 } else {
+                    const newValue = nested === undefined
+                        ? value
+                        : { ...(track.params as Record<string, any>)[topLevel], [nested]: value };
                     return {
                         ...track,
-                        params: { ...track.params, [param]: value } as AllInstrumentParams
+                        params: { ...track.params, [topLevel]: newValue } as AllInstrumentParams
                     };
                 }
             }
             return track;
         })
     );
-  }, [selectedTrackId, pLockModeActive, pLockEditStep]);
+  }, []);
+
+  const isMotionRecording = isPlaying && recordArmed && motionPunchedIn;
+
+  const handleParamChange = useCallback((param: string, value: any) => {
+    setLastTouchedParam(param);
+    if (pLockModeActive && pLockEditStep) {
+      updateTrackParam(selectedTrackId, param, value, pLockEditStep.stepIndex);
+    } else if (isMotionRecording && audioEngine.current) {
+      // Motion recording locks the step playing right now; a step without a trig has nothing to lock.
+      // One undo step covers a whole pass of the knob.
+      const track = tracksRef.current[selectedTrackId];
+      const stepIndex = getStepAtTime(track, audioEngine.current.getContext().currentTime, false);
+      if (track.steps[stepIndex]?.active) updateTrackParam(selectedTrackId, param, value, stepIndex, `motion:${selectedTrackId}:${param}`);
+    } else {
+      updateTrackParam(selectedTrackId, param, value, null);
+    }
+  }, [selectedTrackId, pLockModeActive, pLockEditStep, isMotionRecording, getStepAtTime, updateTrackParam]);
+
+  // Removes the locks on `param` from every step of the track, whether recorded or set by hand
+  const handleClearMotion = useCallback((trackId: number, param: string) => {
+    recordHistory();
+    setTracks(currentTracks => currentTracks.map(track => track.id !== trackId ? track : {
+        ...track,
+        steps: track.steps.map(step => step.pLocks ? { ...step, pLocks: removeParamLock(step.pLocks, `${track.type}Params` as keyof PLocks, param, track.params) } : step),
+    }));
+  }, []);
+
+  // `path` is `volume` or `fxSends.<send>`; p-locks go to the step's `volume` / `fxSends` locks
+  const updateMixerParam = useCallback((trackId: number, path: string, value: number, lockStepIndex: number | null) => {
+    const [key, send] = path.split('.');
+    recordHistory(`mixer:${trackId}:${path}:${lockStepIndex}`);
+    setTracks(currentTracks => currentTracks.map(track => {
+        if (track.id !== trackId) return track;
+        if (lockStepIndex !== null) {
+            const newSteps = [...track.steps];
+            const currentStep = newSteps[lockStepIndex];
+            const pLocks = currentStep.pLocks || {};
+            const newPLocks: PLocks = key === 'fxSends'
+                ? { ...pLocks, fxSends: { ...pLocks.fxSends, [send]: value } }
+                : { ...pLocks, volume: value };
+            newSteps[lockStepIndex] = { ...currentStep, pLocks: newPLocks };
+            return { ...track, steps: newSteps };
+        }
+        return key === 'fxSends'
+            ? { ...track, fxSends: { ...track.fxSends, [send]: value } }
+            : { ...track, volume: value };
+    }));
+  }, []);
   
   const handleClearPLocksForTrack = (trackId: number) => {
+    recordHistory();
     setTracks(currentTracks => currentTracks.map(track => {
         if (track.id === trackId) {
-            const newSteps = track.steps.map(step => ({...step, pLocks: null, note: null, velocity: 1.0}));
+            const newSteps = track.steps.map(step => ({...step, pLocks: null, note: null, velocity: 1.0, paramSlide: false}));
             return {...track, steps: newSteps};
         }
         return track;
@@ -1061,6 +1969,7 @@ function App() {
   };
   
   const handleGlobalFxChange = useCallback((fx: 'reverb' | 'delay' | 'drive' | 'compressor', param: string, value: any) => {
+    recordHistory(`fx:${fx}:${param}`);
     setGlobalFxParams(currentParams => ({
       ...currentParams,
       [fx]: {
@@ -1071,6 +1980,7 @@ function App() {
   }, []);
 
   const handleVolumeChange = useCallback((trackId: number, volume: number) => {
+      recordHistory(`mixer:${trackId}:volume:null`);
       setTracks(currentTracks => currentTracks.map(track => track.id === trackId ? { ...track, volume } : track));
   }, []);
 
@@ -1091,6 +2001,7 @@ function App() {
   }, []);
   
   const handleFxSendChange = useCallback((trackId: number, fx: 'reverb' | 'delay' | 'drive', value: number) => {
+     recordHistory(`mixer:${trackId}:fxSends.${fx}:null`);
      setTracks(currentTracks => currentTracks.map(track => {
         if (track.id === trackId) {
             const newFxSends = { ...track.fxSends, [fx]: value };
@@ -1100,31 +2011,89 @@ function App() {
      }));
   }, []);
 
+  // Each run moves the randomizer on to the next seed, so pressing again gives a new take
+  const advanceRandomizerSeed = () => setRandomizer(current => ({ ...current, seed: (current.seed + 1) % 10000 }));
+
   const handleRandomPattern = useCallback((trackId: number) => {
+    recordHistory();
     setTracks(currentTracks =>
       currentTracks.map(track => 
-        track.id === trackId ? createRandomizedTrack(track) : track
+        track.id === trackId ? randomizeTrack(track, randomizer, scale) : track
       )
     );
+    advanceRandomizerSeed();
+  }, [randomizer, scale]);
+
+  const handleMutatePattern = useCallback((trackId: number) => {
+    recordHistory();
+    setTracks(currentTracks => currentTracks.map(track => track.id === trackId ? mutateTrack(track, randomizer, scale) : track));
+    advanceRandomizerSeed();
+  }, [randomizer, scale]);
+
+  const handleRandomRulesChange = useCallback((trackId: number, randomRules: RandomRule[]) => {
+    recordHistory();
+    setTracks(currentTracks => currentTracks.map(track => track.id === trackId ? { ...track, randomRules } : track));
+  }, []);
+
+  const handleEuclidApply = useCallback((trackId: number, settings: EuclidSettings) => {
+    recordHistory();
+    setTracks(currentTracks => currentTracks.map(track =>
+        track.id === trackId ? { ...track, steps: applyEuclidean(track.steps, track.patternLength, settings) } : track
+    ));
+  }, []);
+
+  // Step tools can change several tracks at once; they all go into one undo step
+  const handleStepsEdit = useCallback((edits: StepsEdit[]) => {
+    recordHistory();
+    setTracks(currentTracks => currentTracks.map(track => {
+        const edit = edits.find(e => e.trackId === track.id);
+        return edit ? { ...track, steps: edit.steps, patternLength: edit.patternLength } : track;
+    }));
   }, []);
 
   const handleRandomAll = useCallback(() => {
-    setTracks(currentTracks => currentTracks.map(createRandomizedTrack));
+    recordHistory();
+    setTracks(currentTracks => currentTracks.map(track => randomizeTrack(track, randomizer, scale)));
+    advanceRandomizerSeed();
+  }, [randomizer, scale]);
+
+  const handleSnapToScaleChange = useCallback((trackId: number, snapToScale: boolean) => {
+    recordHistory();
+    setTracks(currentTracks => currentTracks.map(track => track.id === trackId ? { ...track, snapToScale: snapToScale || undefined } : track));
   }, []);
 
+  const handlePatternTransposeChange = useCallback((value: number) => {
+    recordHistory(`transpose:${currentPatternIndexRef.current}`);
+    setPatterns(currentPatterns => setPatternTranspose(currentPatterns, currentPatternIndexRef.current, value));
+  }, []);
+
+  const handleCustomIntervalToggle = (interval: number) => {
+    const intervals = scale.customIntervals.includes(interval)
+        ? scale.customIntervals.filter(i => i !== interval)
+        : [...scale.customIntervals, interval].sort((a, b) => a - b);
+    if (intervals.length > 0) setScale({ ...scale, customIntervals: intervals });
+  };
+
   const selectedTrack = tracks.find(t => t.id === selectedTrackId) || null;
-  const pLockStep = pLockModeActive && pLockEditStep ? tracks[pLockEditStep.trackId].steps[pLockEditStep.stepIndex] : null;
+  // The synth page shows the locks of the step being edited, or of the playing step while motion recording
+  const pLockStep = pLockModeActive && pLockEditStep ? tracks[pLockEditStep.trackId].steps[pLockEditStep.stepIndex]
+    : isMotionRecording ? tracks[selectedTrackId].steps[currentSteps[selectedTrackId] ?? 0] : null;
   
   const handleExportWav = async () => {
         const wasPlaying = isPlaying;
         if (wasPlaying) togglePlayback();
 
-        const numSteps = 64; // Export 4 bars
-        const stepTime = 60.0 / bpm / 4.0;
-        const duration = numSteps * stepTime;
+        const useChain = songMode && chain.length > 0;
+        const getTracksOfPattern = (index: number) => getPatternTracks(tracks, patterns, currentPatternIndex, index);
+        // The whole chain, or 4 passes of the current pattern
+        const numSteps = useChain
+            ? getChainStepCount(chain, index => getPatternCycleLength(getTracksOfPattern(index)))
+            : 4 * getPatternCycleLength(tracks);
+        const duration = numSteps * getStepDuration(bpm);
         
         const offlineContext = new OfflineAudioContext(2, Math.ceil(duration * 44100), 44100);
         const offlineEngine = new AudioEngine(offlineContext);
+        if (audioEngine.current) offlineEngine.copySamplesFrom(audioEngine.current);
 
         // Update FX in offline engine
         offlineEngine.updateReverb(globalFxParams.reverb, bpm);
@@ -1132,19 +2101,24 @@ function App() {
         offlineEngine.updateDrive(globalFxParams.drive);
         offlineEngine.updateCompressor(globalFxParams.compressor);
 
+        const clock = new StepClock();
+        clock.reset(0, bpm, tracks, seed);
+        let renderChainPosition: ChainPosition | null = null;
+        let patternIndex = currentPatternIndex;
         for (let i = 0; i < numSteps; i++) {
-            const time = i * stepTime;
-            tracks.forEach(track => {
-                const isAudible = soloedTrackId === null ? !mutedTracks.has(track.id) : track.id === soloedTrackId;
-                if (!isAudible) return;
-                
-                const stepIndex = i % track.patternLength;
-                const step = track.steps[stepIndex];
-                if (step && step.active) {
-                    const note = step.note || track.defaultNote;
-                    offlineEngine.trigger(track, step.pLocks, time, note, step.velocity);
-                }
+            if (useChain && clock.isPatternStart()) {
+                renderChainPosition = advanceChainPosition(chain, renderChainPosition);
+                const nextPattern = chain[renderChainPosition.entryIndex].patternIndex;
+                if (i > 0 && nextPattern !== patternIndex) clock.resetTrackPositions();
+                patternIndex = nextPattern;
+            }
+            const patternTracks = getTracksOfPattern(patternIndex);
+            const renderTranspose = transpose + (patterns[patternIndex]?.transpose ?? 0);
+            clock.getTrigs(patternTracks, isTrackAudible, { swing, fill: fillActive, scale, transpose: renderTranspose }).forEach(({ track, step, notes, time, velocity, articulation }) => {
+                if (track.midiOut?.outputId && !track.midiOut.internal) return;
+                notes.forEach(note => offlineEngine.trigger(track, step.pLocks, time, note, velocity, articulation));
             });
+            clock.advance(patternTracks);
         }
         
         const renderedBuffer = await offlineContext.startRendering();
@@ -1153,7 +2127,7 @@ function App() {
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
-        a.download = `fm8r-export-${bpm}bpm.wav`;
+        a.download = `fm8r-export-${useChain ? 'song' : patternName(currentPatternIndex)}-${bpm}bpm.wav`;
         document.body.appendChild(a);
         a.click();
         document.body.removeChild(a);
@@ -1161,6 +2135,7 @@ function App() {
     };
 
   return (
+    <MidiLearnContext.Provider value={midiLearnState}>
     <div className="bg-[var(--bg-chassis)] h-screen w-screen flex flex-col text-white select-none">
       
       {/* Header */}
@@ -1175,15 +2150,60 @@ function App() {
         </div>
 
         <div className="flex items-center space-x-4">
-          <Knob label="BPM" value={bpm} min={30} max={250} step={1} onChange={setBpm} size={40} />
+          <Knob label="BPM" value={bpm} min={30} max={250} step={1} onChange={handleBpmChange} size={40} />
+          <Knob label="SWING" value={swing} min={50} max={75} step={1} onChange={setSwing} size={40} unit="%" />
+          <Knob label="SEED" value={seed} min={0} max={9999} step={1} onChange={setSeed} size={40} />
+          <Knob label="KEY" value={scale.root} min={0} max={11} step={1} onChange={v => setScale({ ...scale, root: v })} size={40} displayTransform={v => NOTE_NAMES[v]} />
+          <Knob label="SCALE" value={SCALE_OPTIONS.findIndex(o => o.id === scale.scale)} min={0} max={SCALE_OPTIONS.length - 1} step={1}
+            onChange={v => setScale({ ...scale, scale: SCALE_OPTIONS[v].id })} size={40} displayTransform={v => SCALE_OPTIONS[v]?.name ?? ''} />
+          {scale.scale === 'custom' && (
+            <div className="grid grid-cols-12 gap-px" title="Notes of the custom scale">
+              {NOTE_NAMES.map((_, interval) => (
+                <button key={interval} onClick={() => handleCustomIntervalToggle(interval)} title={NOTE_NAMES[(scale.root + interval) % 12]}
+                  className={`w-2.5 h-8 rounded-sm border border-black/50 ${scale.customIntervals.includes(interval) ? 'bg-[var(--accent-color)]' : 'bg-gray-700 hover:bg-gray-600'}`} />
+              ))}
+            </div>
+          )}
+          <Knob label="TRNSP" value={transpose} min={-24} max={24} step={1} onChange={setTranspose} size={40} />
           
-          <button onClick={togglePlayback} className={`w-20 h-10 rounded-md font-bold text-sm uppercase tracking-wider transition-all border ${isPlaying ? 'bg-red-600 border-red-400 text-white' : 'bg-gray-700 border-gray-900 hover:bg-gray-600 text-gray-300'}`}>
-            {isPlaying ? 'STOP' : 'PLAY'}
+          <button onClick={togglePlayback} disabled={clockMode === 'follow'} title={clockMode === 'follow' ? 'Following external MIDI clock' : undefined} className={`w-20 h-10 rounded-md font-bold text-sm uppercase tracking-wider transition-all border ${isPlaying ? 'bg-red-600 border-red-400 text-white' : 'bg-gray-700 border-gray-900 hover:bg-gray-600 text-gray-300'}`}>
+            {isPlaying ? 'STOP' : clockMode === 'follow' ? 'EXT' : 'PLAY'}
+          </button>
+
+          <button onClick={() => setFillActive(v => !v)} title="Fill mode for FILL / NOT FILL trig conditions" className={`h-10 px-3 rounded-md font-bold text-sm uppercase tracking-wider transition-all border ${fillActive ? 'bg-yellow-500 border-yellow-300 text-black' : 'bg-gray-700 border-gray-900 hover:bg-gray-600 text-gray-300'}`}>
+            FILL
+          </button>
+
+          <button onClick={() => setRecordArmed(v => !v)} title="Record incoming MIDI notes into the pattern" className={`h-10 px-3 rounded-md font-bold text-sm uppercase tracking-wider transition-all border ${recordArmed ? 'bg-red-600 border-red-400 text-white' : 'bg-gray-700 border-gray-900 hover:bg-gray-600 text-gray-300'}`}>
+            REC <span className={`inline-block w-2 h-2 rounded-full ${recordArmed ? 'bg-white animate-pulse' : 'bg-red-900'}`}></span>
+          </button>
+
+          <div className="flex flex-col space-y-1">
+            <button onClick={() => setMotionPunchedIn(v => !v)} title="Punch in / out: while recording, synth knob moves lock the playing step" className={`px-2 py-0.5 rounded-sm font-bold text-[10px] uppercase tracking-wider border ${motionPunchedIn ? (isMotionRecording ? 'bg-red-600 border-red-400 text-white' : 'bg-[var(--accent-color)] text-black border-[var(--accent-color)]') : 'bg-gray-700 border-gray-900 hover:bg-gray-600 text-gray-300'}`}>
+              MOTION
+            </button>
+            <button onClick={() => lastTouchedParam && handleClearMotion(selectedTrackId, lastTouchedParam)} disabled={!lastTouchedParam}
+              title={lastTouchedParam ? `Clear the ${lastTouchedParam} locks of ${selectedTrack?.name ?? 'the track'}` : 'Move a synth knob to choose the parameter to clear'}
+              className="px-2 py-0.5 rounded-sm font-bold text-[10px] uppercase tracking-wider border bg-gray-700 border-gray-900 hover:bg-gray-600 text-gray-300 disabled:opacity-50">
+              CLR
+            </button>
+          </div>
+
+          <button onClick={() => { setMidiLearnActive(v => !v); setMidiLearnSelection(null); }} title="Click a knob, then move a MIDI controller to map it" className={`h-10 px-3 rounded-md font-bold text-xs uppercase tracking-wider transition-all border ${midiLearnActive ? 'bg-sky-600 border-sky-400 text-white' : 'bg-gray-700 border-gray-900 hover:bg-gray-600 text-gray-300'}`}>
+            {midiLearnActive && midiLearnSelection ? 'MOVE CC' : 'LEARN'}
           </button>
           
-          <button onClick={handleExportWav} title="Export 4 bars as WAV" className="h-10 px-3 rounded-md font-bold text-xs uppercase tracking-wider bg-gray-700 border-gray-900 hover:bg-gray-600 text-gray-300">
+          <button onClick={handleExportWav} title={songMode && chain.length > 0 ? 'Export the song chain as WAV' : 'Export 4 full pattern cycles as WAV'} className="h-10 px-3 rounded-md font-bold text-xs uppercase tracking-wider bg-gray-700 border-gray-900 hover:bg-gray-600 text-gray-300">
             EXPORT
           </button>
+
+          <button onClick={() => downloadProject(getProjectState())} title={`Save project as ${PROJECT_FILE_EXTENSION}`} className="h-10 px-3 rounded-md font-bold text-xs uppercase tracking-wider bg-gray-700 border-gray-900 hover:bg-gray-600 text-gray-300">
+            SAVE
+          </button>
+          <button onClick={() => projectFileInput.current?.click()} title="Load project file" className="h-10 px-3 rounded-md font-bold text-xs uppercase tracking-wider bg-gray-700 border-gray-900 hover:bg-gray-600 text-gray-300">
+            LOAD
+          </button>
+          <input ref={projectFileInput} type="file" accept={`${PROJECT_FILE_EXTENSION},application/json`} onChange={handleProjectImport} className="hidden" />
         </div>
       </header>
 
@@ -1196,37 +2216,104 @@ function App() {
               <button onClick={() => setSelectedTab('synth')} className={`flex-1 py-1.5 text-xs font-bold uppercase tracking-wider rounded-sm transition-all ${selectedTab === 'synth' ? 'bg-[var(--accent-color)] text-black' : 'bg-gray-800/50 hover:bg-gray-700'}`}>Synth</button>
               <button onClick={() => setSelectedTab('fx')} className={`flex-1 py-1.5 text-xs font-bold uppercase tracking-wider rounded-sm transition-all ${selectedTab === 'fx' ? 'bg-[var(--accent-color)] text-black' : 'bg-gray-800/50 hover:bg-gray-700'}`}>Master FX</button>
               <button onClick={() => setSelectedTab('mixer')} className={`flex-1 py-1.5 text-xs font-bold uppercase tracking-wider rounded-sm transition-all ${selectedTab === 'mixer' ? 'bg-[var(--accent-color)] text-black' : 'bg-gray-800/50 hover:bg-gray-700'}`}>Mixer</button>
+              <button onClick={() => setSelectedTab('kits')} className={`flex-1 py-1.5 text-xs font-bold uppercase tracking-wider rounded-sm transition-all ${selectedTab === 'kits' ? 'bg-[var(--accent-color)] text-black' : 'bg-gray-800/50 hover:bg-gray-700'}`}>Kits</button>
+              <button onClick={() => setSelectedTab('samples')} className={`flex-1 py-1.5 text-xs font-bold uppercase tracking-wider rounded-sm transition-all ${selectedTab === 'samples' ? 'bg-[var(--accent-color)] text-black' : 'bg-gray-800/50 hover:bg-gray-700'}`}>Samples</button>
+              <button onClick={() => setSelectedTab('midi')} className={`flex-1 py-1.5 text-xs font-bold uppercase tracking-wider rounded-sm transition-all ${selectedTab === 'midi' ? 'bg-[var(--accent-color)] text-black' : 'bg-gray-800/50 hover:bg-gray-700'}`}>MIDI</button>
            </div>
            <div className="flex-grow overflow-hidden p-2">
-                {selectedTab === 'synth' && <InstrumentEditor track={selectedTrack} pLocks={pLockStep?.pLocks ?? null} onParamChange={handleParamChange} isPLockMode={pLockModeActive}/>}
+                {selectedTab === 'synth' && <InstrumentEditor track={selectedTrack} pLocks={pLockStep?.pLocks ?? null} onParamChange={handleParamChange} isPLockMode={pLockModeActive}
+                    presets={presets} onPresetLoad={handlePresetLoad} onPresetSave={handlePresetSave} onPresetDelete={handlePresetDelete}
+                    onTypeChange={handleTrackTypeChange} onSampleLoad={handleSampleLoad} />}
                 {selectedTab === 'fx' && <EffectsRack fxParams={globalFxParams} onChange={handleGlobalFxChange} />}
                 {selectedTab === 'mixer' && <Mixer tracks={tracks} mutedTracks={mutedTracks} soloedTrackId={soloedTrackId} onVolumeChange={handleVolumeChange} onMuteToggle={handleMuteToggle} onSoloToggle={handleSoloToggle} onFxSendChange={handleFxSendChange} />}
+                {selectedTab === 'kits' && (
+                    <GlobalPresetManager kits={kits} onSave={handleKitSave} onLoad={handleKitLoad} onExport={downloadKit}
+                        onDelete={kitId => setKits(current => current.filter(k => k.id !== kitId))} onImport={handleKitImport} />
+                )}
+                {selectedTab === 'samples' && (
+                    <SampleBrowser samples={samples} trackName={selectedTrack?.name ?? ''}
+                        assignedSampleId={selectedTrack?.type === 'sample' ? (selectedTrack.params as SampleParams).sampleId : null}
+                        onImport={importSamples} onAudition={handleSampleAudition} onAssign={handleSampleAssign} onDelete={handleSampleDelete} />
+                )}
+                {selectedTab === 'midi' && (
+                    <MidiSettings
+                        midiEnabled={midiEnabled}
+                        inputs={midiInputs}
+                        outputs={midiOutputs}
+                        clockMode={clockMode}
+                        clockInputId={clockInputId}
+                        clockOutputId={clockOutputId}
+                        onEnableMidi={handleEnableMidi}
+                        onClockModeChange={handleClockModeChange}
+                        onClockInputChange={handleClockInputChange}
+                        onClockOutputChange={handleClockOutputChange}
+                        onTrackMidiOutChange={handleTrackMidiOutChange}
+                        tracks={tracks}
+                        noteInputId={noteInputId}
+                        noteMap={midiNoteMap}
+                        recordQuantize={recordQuantize}
+                        onNoteInputChange={handleNoteInputChange}
+                        onNoteMapChange={setMidiNoteMap}
+                        onRecordQuantizeToggle={() => setRecordQuantize(v => !v)}
+                        ccMappings={midiCCMappings}
+                        onCCMappingsChange={setMidiCCMappings}
+                    />
+                )}
            </div>
         </div>
 
         {/* Right Panel: Sequencer */}
-        <div className="w-1/2 lg:w-2/3">
-          <Sequencer
-            tracks={tracks}
-            currentStep={currentStep}
-            selectedTrackId={selectedTrackId}
-            mutedTracks={mutedTracks}
-            soloedTrackId={soloedTrackId}
-            pLockModeActive={pLockModeActive}
-            pLockEditStep={pLockEditStep}
-            onStepClick={handleStepClick}
-            onTrackSelect={setSelectedTrackId}
-            onPatternLengthChange={handlePatternLengthChange}
-            onStepPropertyChange={handleStepPropertyChange}
-            onPLockToggle={() => { setPLockModeActive(v => !v); setPLockEditStep(null); }}
-            onRandomPattern={handleRandomPattern}
-            onRandomAll={handleRandomAll}
-            onClearPLocks={handleClearPLocksForTrack}
+        <div className="w-1/2 lg:w-2/3 flex flex-col space-y-2">
+          <PatternBank
+            patterns={patterns}
+            currentPatternIndex={currentPatternIndex}
+            queuedPatternIndex={queuedPatternIndex}
+            chain={chain}
+            songMode={songMode}
+            canPaste={patternClipboard !== null}
+            onPatternSelect={handlePatternSelect}
+            onCopy={handlePatternCopy}
+            onPaste={handlePatternPaste}
+            onClear={handlePatternClear}
+            onChainChange={setChain}
+            onSongModeToggle={() => setSongMode(v => !v)}
+            onTransposeChange={handlePatternTransposeChange}
           />
+          <div className="flex-grow min-h-0">
+            <Sequencer
+              tracks={tracks}
+              currentSteps={currentSteps}
+              scale={scale}
+              selectedTrackId={selectedTrackId}
+              mutedTracks={mutedTracks}
+              soloedTrackId={soloedTrackId}
+              pLockModeActive={pLockModeActive}
+              pLockEditStep={pLockEditStep}
+              onStepClick={handleStepClick}
+              onTrackSelect={setSelectedTrackId}
+              onPatternLengthChange={handlePatternLengthChange}
+              onGrooveChange={handleGrooveChange}
+              onChordMemoryChange={handleChordMemoryChange}
+              onVoiceLimitChange={handleVoiceLimitChange}
+              onSnapToScaleChange={handleSnapToScaleChange}
+              onStepPropertyChange={handleStepPropertyChange}
+              onPLockToggle={() => { setPLockModeActive(v => !v); setPLockEditStep(null); }}
+              onRandomPattern={handleRandomPattern}
+              onEuclidApply={handleEuclidApply}
+              onStepsEdit={handleStepsEdit}
+              onMutatePattern={handleMutatePattern}
+              randomizer={randomizer}
+              onRandomizerChange={setRandomizer}
+              onRandomRulesChange={handleRandomRulesChange}
+              onRandomAll={handleRandomAll}
+              onClearPLocks={handleClearPLocksForTrack}
+            />
+          </div>
         </div>
 
       </main>
     </div>
+    </MidiLearnContext.Provider>
   );
 }
 
@@ -0,0 +1,51 @@
+import React from 'react';
+import { EuclidSettings, EuclidVelocityShape } from '../types';
+import Knob from './Knob';
+
+interface EuclidPanelProps {
+    settings: EuclidSettings;
+    maxSteps: number;
+    onChange: (settings: EuclidSettings) => void;
+    onApply: () => void;
+    onCancel: () => void;
+}
+
+const VELOCITY_SHAPES: { value: EuclidVelocityShape; label: string }[] = [
+    { value: 'flat', label: 'FLAT' }, { value: 'rampUp', label: 'RAMP UP' }, { value: 'rampDown', label: 'RAMP DN' }, { value: 'random', label: 'RANDOM' },
+];
+
+// Settings for the Euclidean generator; the sequencer previews the result on the selected track until APPLY
+const EuclidPanel: React.FC<EuclidPanelProps> = ({ settings, maxSteps, onChange, onApply, onCancel }) => {
+    const steps = Math.min(settings.steps, maxSteps);
+    const update = (changes: Partial<EuclidSettings>) => onChange({ ...settings, ...changes });
+
+    const handleShapeCycle = () => {
+        const index = VELOCITY_SHAPES.findIndex(s => s.value === settings.velocityShape);
+        const velocityShape = VELOCITY_SHAPES[(index + 1) % VELOCITY_SHAPES.length].value;
+        update({ velocityShape, seed: velocityShape === 'random' ? Math.floor(Math.random() * 10000) : settings.seed });
+    };
+
+    return (
+        <div className="flex items-center bg-black/30 p-2 rounded border border-black flex-shrink-0 space-x-2">
+            <span className="text-[10px] text-gray-500 font-mono">EUCLID</span>
+            <Knob label="PULSES" value={Math.min(settings.pulses, steps)} min={0} max={steps} step={1} onChange={v => update({ pulses: v })} size={32} />
+            <Knob label="STEPS" value={steps} min={1} max={maxSteps} step={1} onChange={v => update({ steps: v, pulses: Math.min(settings.pulses, v) })} size={32} />
+            <Knob label="ROTATE" value={settings.rotation} min={0} max={Math.max(0, steps - 1)} step={1} onChange={v => update({ rotation: v })} size={32} />
+            <Knob label="ACCENT" value={settings.accentEvery} min={0} max={8} step={1} onChange={v => update({ accentEvery: v })} size={32}
+                displayTransform={v => v === 0 ? 'OFF' : `1/${v}`} />
+            <Knob label="VEL" value={Math.round(settings.velocity * 100)} min={5} max={100} step={1} onChange={v => update({ velocity: v / 100 })} size={32} unit="%" />
+            <Knob label="SPREAD" value={Math.round(settings.velocitySpread * 100)} min={0} max={100} step={1} onChange={v => update({ velocitySpread: v / 100 })} size={32} unit="%" />
+            <div className="flex flex-col items-center space-y-1.5 w-16">
+                <span className="text-[var(--text-muted)] text-[10px] uppercase tracking-wider font-display">SHAPE</span>
+                <button onClick={handleShapeCycle} className="w-full h-6 text-[10px] font-mono font-bold rounded-sm bg-[#111] text-[var(--text-screen)] border border-black/50 hover:bg-black truncate">
+                    {VELOCITY_SHAPES.find(s => s.value === settings.velocityShape)?.label}
+                </button>
+            </div>
+            <div className="flex-grow" />
+            <button onClick={onApply} className="px-2 py-1 text-xs font-bold rounded-sm bg-[var(--accent-color)] text-black border border-[var(--accent-color)]">APPLY</button>
+            <button onClick={onCancel} className="px-2 py-1 text-xs font-bold rounded-sm bg-gray-700 hover:bg-gray-600 border border-black/50">CANCEL</button>
+        </div>
+    );
+};
+
+export default React.memo(EuclidPanel);
@@ -0,0 +1,57 @@
+import React, { useRef, useState } from 'react';
+import { Kit } from '../types';
+import { KIT_FILE_EXTENSION } from '../presetLibrary';
+
+interface GlobalPresetManagerProps {
+    kits: Kit[];
+    onSave: (name: string) => void;
+    onLoad: (kit: Kit) => void;
+    onDelete: (kitId: string) => void;
+    onExport: (kit: Kit) => void;
+    onImport: (file: File) => void;
+}
+
+const buttonClass = 'px-2 py-1 text-xs font-bold rounded-sm bg-gray-700 hover:bg-gray-600 border border-black/50';
+
+// Kits: the sound of all tracks and the master effects, loaded without touching the patterns
+const GlobalPresetManager: React.FC<GlobalPresetManagerProps> = ({ kits, onSave, onLoad, onDelete, onExport, onImport }) => {
+    const [name, setName] = useState('');
+    const fileInput = useRef<HTMLInputElement>(null);
+
+    const handleSave = () => {
+        onSave(name);
+        setName('');
+    };
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) onImport(file);
+    };
+
+    return (
+        <div className="font-mono text-[var(--text-screen)] h-full flex flex-col space-y-2 p-2">
+            <div className="flex items-center space-x-1">
+                <input value={name} onChange={e => setName(e.target.value)} placeholder="KIT NAME"
+                    className="flex-grow min-w-0 bg-[#111] text-[11px] px-2 py-1 rounded-sm border border-black/50 focus:outline-none focus:border-[var(--accent-color)]" />
+                <button onClick={handleSave} title="Save the sound of every track and the master effects" className={buttonClass}>SAVE</button>
+                <button onClick={() => fileInput.current?.click()} title="Import a kit file" className={buttonClass}>IMPORT</button>
+                <input ref={fileInput} type="file" accept={`${KIT_FILE_EXTENSION},application/json`} onChange={handleFileChange} className="hidden" />
+            </div>
+            <div className="flex-grow overflow-y-auto no-scrollbar space-y-px">
+                {kits.length === 0 && <div className="text-[10px] text-gray-500 text-center py-4">NO KITS SAVED</div>}
+                {kits.map(kit => (
+                    <div key={kit.id} className="flex items-center space-x-1 bg-[#111] rounded-sm border border-black/50 pr-1">
+                        <button onClick={() => onLoad(kit)} title="Load the kit; the patterns stay as they are" className="flex-grow px-2 py-1.5 text-left text-[11px] font-bold hover:bg-black truncate">
+                            {kit.name}
+                        </button>
+                        <button onClick={() => onExport(kit)} title="Export as a file" className="text-[10px] text-gray-500 hover:text-white px-1">EXPORT</button>
+                        <button onClick={() => onDelete(kit.id)} title="Delete kit" className="text-[10px] text-gray-500 hover:text-red-400 px-1">DEL</button>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default React.memo(GlobalPresetManager);
@@ -1,6 +1,10 @@
 import React from 'react';
-import { Track, PLocks, LFODestination, AllInstrumentParams, LFOParams, FilterParams } from '../types';
+import { Track, TrackType, PLocks, LFODestination, AllInstrumentParams, LFOParams, FilterParams, ArpParams, SoundPreset } from '../types';
+import { TIME_DIVISIONS, TRACK_TYPES } from '../constants';
 import Knob from './Knob';
+import PresetManager from './PresetManager';
+import { MidiLearnScopeContext } from '../midiLearn';
+import { SAMPLE_FILE_ACCEPT } from '../sampleStore';
 
 const Section: React.FC<{ title: string; children: React.ReactNode, gridCols?: number }> = ({ title, children, gridCols = 4 }) => (
   <div className="border-t border-[var(--accent-color)]/20 py-2">
@@ -34,11 +38,22 @@ interface InstrumentEditorProps {
   track: Track | null;
   pLocks: PLocks | null;
   isPLockMode: boolean;
+  // `param` is a top-level param or a dotted path like `filter.cutoff` for a single nested field
   onParamChange: (param: string, value: any) => void;
+  presets: SoundPreset[];
+  onPresetLoad: (preset: SoundPreset) => void;
+  onPresetSave: (name: string, tags: string[]) => void;
+  onPresetDelete: (presetId: string) => void;
+  onTypeChange: (type: TrackType) => void;
+  onSampleLoad: (file: File) => void;
 }
 
 const LFO_WAVEFORM_OPTIONS = [{value: 'sine', label: 'SIN'}, {value: 'triangle', label: 'TRI'}, {value: 'sawtooth', label: 'SAW'}, {value: 'square', label: 'SQR'}];
 const FILTER_TYPE_OPTIONS = [{value: 'lowpass', label: 'LP'}, {value: 'highpass', label: 'HP'}, {value: 'bandpass', label: 'BP'}];
+const ARP_MODE_OPTIONS = [{value: 'off', label: 'OFF'}, {value: 'up', label: 'UP'}, {value: 'down', label: 'DOWN'}, {value: 'upDown', label: 'UP/DN'}, {value: 'random', label: 'RAND'}, {value: 'asPlayed', label: 'PLAYED'}];
+const ARP_RATE_OPTIONS = TIME_DIVISIONS.map(d => ({ value: String(d.value), label: d.name.toUpperCase() }));
+const ENGINE_OPTIONS = TRACK_TYPES.map(type => ({ value: type, label: type.toUpperCase() }));
+const SWITCH_OPTIONS = [{value: 'off', label: 'OFF'}, {value: 'on', label: 'ON'}];
 
 const LFOSection: React.FC<{
     lfoNum: 1 | 2;
@@ -70,10 +85,7 @@ const LFOSection: React.FC<{
     };
     
     const handleChange = (field: keyof LFOParams, value: any) => {
-        if ('lfo1' in params && params.lfo1) {
-            const currentLFO = params[lfoKey];
-            onParamChange(lfoKey, { ...currentLFO, [field]: value });
-        }
+        if ('lfo1' in params && params.lfo1) onParamChange(`${lfoKey}.${field}`, value);
     }
 
     if (!('lfo1' in params)) return null;
@@ -81,8 +93,8 @@ const LFOSection: React.FC<{
     return (
         <Section title={`LFO ${lfoNum}`} gridCols={4}>
             <Selector label="WAVE" value={getVal('waveform')} options={LFO_WAVEFORM_OPTIONS} onChange={v => handleChange('waveform', v)} isPLocked={isLocked('waveform')} />
-            <Knob label="RATE" value={getVal('rate')} min={0.01} max={50} step={0.01} onChange={v => handleChange('rate', v)} isPLocked={isLocked('rate')} unit="hz" />
-            <Knob label="DEPTH" value={getVal('depth')} min={0} max={1000} step={1} onChange={v => handleChange('depth', v)} isPLocked={isLocked('depth')} />
+            <Knob label="RATE" value={getVal('rate')} min={0.01} max={50} step={0.01} onChange={v => handleChange('rate', v)} learnPath={`${lfoKey}.rate`} isPLocked={isLocked('rate')} unit="hz" />
+            <Knob label="DEPTH" value={getVal('depth')} min={0} max={1000} step={1} onChange={v => handleChange('depth', v)} learnPath={`${lfoKey}.depth`} isPLocked={isLocked('depth')} />
             <Selector label="DEST" value={getVal('destination')} options={destinationOptions} onChange={v => handleChange('destination', v)} isPLocked={isLocked('destination')} />
         </Section>
     );
@@ -97,11 +109,7 @@ const FilterSection: React.FC<{
     const getVal = (field: string) => pLocks?.[`${trackType}Params` as keyof PLocks]?.['filter' as keyof typeof pLocks[keyof PLocks]]?.[field] ?? (params as any).filter[field];
     const isLocked = (field: string) => pLocks?.[`${trackType}Params` as keyof PLocks]?.['filter'as keyof typeof pLocks[keyof PLocks]]?.[field] !== undefined;
     const handleChange = (field: keyof FilterParams, value: any) => {
-        if ('filter' in params && typeof params.filter === 'object' && params.filter !== null) {
-            // FIX: Use Object.assign instead of spread syntax to avoid TypeScript errors
-            // when dealing with properties on union types.
-            onParamChange('filter', Object.assign({}, params.filter, { [field]: value }));
-        }
+        if ('filter' in params && typeof params.filter === 'object' && params.filter !== null) onParamChange(`filter.${field}`, value);
     }
     
     if (!('filter' in params)) return null;
@@ -109,14 +117,36 @@ const FilterSection: React.FC<{
     return (
          <Section title="FILTER" gridCols={3}>
             <Selector label="TYPE" value={getVal('type')} options={FILTER_TYPE_OPTIONS} onChange={v => handleChange('type', v)} isPLocked={isLocked('type')} />
-            <Knob label="CUTOFF" value={getVal('cutoff')} min={20} max={20000} onChange={v => handleChange('cutoff', v)} isPLocked={isLocked('cutoff')} unit="hz" />
-            <Knob label="RESO" value={getVal('resonance')} min={0.1} max={30} step={0.1} onChange={v => handleChange('resonance', v)} isPLocked={isLocked('resonance')} />
+            <Knob label="CUTOFF" value={getVal('cutoff')} min={20} max={20000} onChange={v => handleChange('cutoff', v)} learnPath="filter.cutoff" isPLocked={isLocked('cutoff')} unit="hz" />
+            <Knob label="RESO" value={getVal('resonance')} min={0.1} max={30} step={0.1} onChange={v => handleChange('resonance', v)} learnPath="filter.resonance" isPLocked={isLocked('resonance')} />
         </Section>
     );
 };
 
+const ArpSection: React.FC<{
+    params: AllInstrumentParams;
+    pLocks: PLocks | null;
+    trackType: Track['type'];
+    onParamChange: (param: string, value: any) => void;
+}> = ({ params, pLocks, trackType, onParamChange }) => {
+    if (!('arp' in params)) return null;
 
-const InstrumentEditor: React.FC<InstrumentEditorProps> = ({ track, pLocks, onParamChange }) => {
+    const pLockedArp = (pLocks?.[`${trackType}Params` as keyof PLocks] as { arp?: Partial<ArpParams> } | undefined)?.arp;
+    const getVal = <K extends keyof ArpParams>(field: K): ArpParams[K] => pLockedArp?.[field] ?? params.arp[field];
+    const isLocked = (field: keyof ArpParams) => pLockedArp?.[field] !== undefined;
+    const handleChange = (field: keyof ArpParams, value: any) => onParamChange(`arp.${field}`, value);
+
+    return (
+        <Section title="ARP" gridCols={4}>
+            <Selector label="MODE" value={getVal('mode')} options={ARP_MODE_OPTIONS} onChange={v => handleChange('mode', v)} isPLocked={isLocked('mode')} />
+            <Selector label="RATE" value={String(getVal('division'))} options={ARP_RATE_OPTIONS} onChange={v => handleChange('division', parseFloat(v))} isPLocked={isLocked('division')} />
+            <Knob label="OCT" value={getVal('octaves')} min={1} max={4} step={1} onChange={v => handleChange('octaves', v)} learnPath="arp.octaves" isPLocked={isLocked('octaves')} />
+            <Knob label="GATE" value={getVal('gate') * 100} min={5} max={100} step={1} onChange={v => handleChange('gate', v / 100)} learnPath="arp.gate" isPLocked={isLocked('gate')} unit="%" />
+        </Section>
+    );
+};
+
+const InstrumentEditor: React.FC<InstrumentEditorProps> = ({ track, pLocks, onParamChange, presets, onPresetLoad, onPresetSave, onPresetDelete, onTypeChange, onSampleLoad }) => {
   if (!track) return null;
 
   const getVal = (paramName: string) => {
@@ -129,11 +159,9 @@ const InstrumentEditor: React.FC<InstrumentEditorProps> = ({ track, pLocks, onPa
   };
   
   const handleNestedChange = (path: string, value: any) => {
-      const [topLevel, nested] = path.split('.');
+      const [topLevel] = path.split('.');
       const currentTopLevelVal = getVal(topLevel);
-      if (typeof currentTopLevelVal === 'object' && currentTopLevelVal !== null) {
-        onParamChange(topLevel, { ...currentTopLevelVal, [nested]: value });
-      }
+      if (typeof currentTopLevelVal === 'object' && currentTopLevelVal !== null) onParamChange(path, value);
   };
   
   const getNestedVal = (path: string) => {
@@ -158,20 +186,20 @@ const InstrumentEditor: React.FC<InstrumentEditorProps> = ({ track, pLocks, onPa
     ];
     return <>
       <Section title="KICK SYNTHESIS" gridCols={3}>
-        <Knob label="TUNE" value={getVal('tune')} min={20} max={80} step={0.1} onChange={v => onParamChange('tune', v)} isPLocked={isLocked('tune')} />
-        <Knob label="DECAY" value={getVal('decay')} min={0.1} max={2.0} step={0.01} onChange={v => onParamChange('decay', v)} isPLocked={isLocked('decay')} />
-        <Knob label="PUNCH" value={getVal('punch')} min={0} max={100} onChange={v => onParamChange('punch', v)} isPLocked={isLocked('punch')} />
-        <Knob label="SATURATE" value={getVal('saturation')} min={0} max={100} onChange={v => onParamChange('saturation', v)} isPLocked={isLocked('saturation')} />
-        <Knob label="BODY" value={getVal('body')} min={0} max={100} onChange={v => onParamChange('body', v)} isPLocked={isLocked('body')} />
-        <Knob label="TONE" value={getVal('tone')} min={200} max={18000} onChange={v => onParamChange('tone', v)} isPLocked={isLocked('tone')} unit="hz"/>
-        <Knob label="TRANSIENT" value={getVal('transientAmount')} min={0} max={100} onChange={v => onParamChange('transientAmount', v)} isPLocked={isLocked('transientAmount')} />
-        <Knob label="P.ENV AMT" value={getVal('pitchEnvAmount')} min={0} max={100} onChange={v => onParamChange('pitchEnvAmount', v)} isPLocked={isLocked('pitchEnvAmount')} />
-        <Knob label="P.ENV DEC" value={getVal('pitchEnvDecay')} min={0.01} max={0.5} step={0.001} onChange={v => onParamChange('pitchEnvDecay', v)} isPLocked={isLocked('pitchEnvDecay')} />
+        <Knob label="TUNE" value={getVal('tune')} min={20} max={80} step={0.1} onChange={v => onParamChange('tune', v)} learnPath="tune" isPLocked={isLocked('tune')} />
+        <Knob label="DECAY" value={getVal('decay')} min={0.1} max={2.0} step={0.01} onChange={v => onParamChange('decay', v)} learnPath="decay" isPLocked={isLocked('decay')} />
+        <Knob label="PUNCH" value={getVal('punch')} min={0} max={100} onChange={v => onParamChange('punch', v)} learnPath="punch" isPLocked={isLocked('punch')} />
+        <Knob label="SATURATE" value={getVal('saturation')} min={0} max={100} onChange={v => onParamChange('saturation', v)} learnPath="saturation" isPLocked={isLocked('saturation')} />
+        <Knob label="BODY" value={getVal('body')} min={0} max={100} onChange={v => onParamChange('body', v)} learnPath="body" isPLocked={isLocked('body')} />
+        <Knob label="TONE" value={getVal('tone')} min={200} max={18000} onChange={v => onParamChange('tone', v)} learnPath="tone" isPLocked={isLocked('tone')} unit="hz"/>
+        <Knob label="TRANSIENT" value={getVal('transientAmount')} min={0} max={100} onChange={v => onParamChange('transientAmount', v)} learnPath="transientAmount" isPLocked={isLocked('transientAmount')} />
+        <Knob label="P.ENV AMT" value={getVal('pitchEnvAmount')} min={0} max={100} onChange={v => onParamChange('pitchEnvAmount', v)} learnPath="pitchEnvAmount" isPLocked={isLocked('pitchEnvAmount')} />
+        <Knob label="P.ENV DEC" value={getVal('pitchEnvDecay')} min={0.01} max={0.5} step={0.001} onChange={v => onParamChange('pitchEnvDecay', v)} learnPath="pitchEnvDecay" isPLocked={isLocked('pitchEnvDecay')} />
       </Section>
       <Section title="RUMBLE FX" gridCols={3}>
-        <Knob label="RUMBLE AMT" value={getVal('rumbleAmount')} min={0} max={100} onChange={v => onParamChange('rumbleAmount', v)} isPLocked={isLocked('rumbleAmount')} />
-        <Knob label="RUMBLE DEC" value={getVal('rumbleDecay')} min={0.1} max={2.0} step={0.01} onChange={v => onParamChange('rumbleDecay', v)} isPLocked={isLocked('rumbleDecay')} />
-        <Knob label="RUMBLE TONE" value={getVal('rumbleTone')} min={100} max={2000} onChange={v => onParamChange('rumbleTone', v)} isPLocked={isLocked('rumbleTone')} unit="hz" />
+        <Knob label="RUMBLE AMT" value={getVal('rumbleAmount')} min={0} max={100} onChange={v => onParamChange('rumbleAmount', v)} learnPath="rumbleAmount" isPLocked={isLocked('rumbleAmount')} />
+        <Knob label="RUMBLE DEC" value={getVal('rumbleDecay')} min={0.1} max={2.0} step={0.01} onChange={v => onParamChange('rumbleDecay', v)} learnPath="rumbleDecay" isPLocked={isLocked('rumbleDecay')} />
+        <Knob label="RUMBLE TONE" value={getVal('rumbleTone')} min={100} max={2000} onChange={v => onParamChange('rumbleTone', v)} learnPath="rumbleTone" isPLocked={isLocked('rumbleTone')} unit="hz" />
       </Section>
       <FilterSection params={track.params} pLocks={pLocks} trackType={track.type} onParamChange={onParamChange} />
       <LFOSection lfoNum={1} params={track.params} pLocks={pLocks} trackType={track.type} onParamChange={onParamChange} destinationOptions={destOptions} />
@@ -187,9 +215,9 @@ const InstrumentEditor: React.FC<InstrumentEditorProps> = ({ track, pLocks, onPa
     ];
       return <>
         <Section title="HAT">
-            <Knob label="TONE" value={getVal('tone')} min={2000} max={18000} onChange={v => onParamChange('tone', v)} isPLocked={isLocked('tone')} />
-            <Knob label="DECAY" value={getVal('decay')} min={0.01} max={0.5} step={0.001} onChange={v => onParamChange('decay', v)} isPLocked={isLocked('decay')} />
-            <Knob label="METAL" value={getVal('metal')} min={0} max={1} step={0.01} onChange={v => onParamChange('metal', v)} isPLocked={isLocked('metal')} />
+            <Knob label="TONE" value={getVal('tone')} min={2000} max={18000} onChange={v => onParamChange('tone', v)} learnPath="tone" isPLocked={isLocked('tone')} />
+            <Knob label="DECAY" value={getVal('decay')} min={0.01} max={0.5} step={0.001} onChange={v => onParamChange('decay', v)} learnPath="decay" isPLocked={isLocked('decay')} />
+            <Knob label="METAL" value={getVal('metal')} min={0} max={1} step={0.01} onChange={v => onParamChange('metal', v)} learnPath="metal" isPLocked={isLocked('metal')} />
         </Section>
         <FilterSection params={track.params} pLocks={pLocks} trackType={track.type} onParamChange={onParamChange} />
         <LFOSection lfoNum={1} params={track.params} pLocks={pLocks} trackType={track.type} onParamChange={onParamChange} destinationOptions={destOptions} />
@@ -211,33 +239,34 @@ const InstrumentEditor: React.FC<InstrumentEditorProps> = ({ track, pLocks, onPa
             <h4 className="text-xs text-center text-gray-400">OSC 1</h4>
             <Selector label="WAVE" value={getNestedVal('osc1.waveform')} options={waveformOptions} onChange={v => handleNestedChange('osc1.waveform', v)} isPLocked={isNestedLocked('osc1.waveform')} />
             <div className="flex justify-around">
-                <Knob label="OCT" value={getNestedVal('osc1.octave')} min={-2} max={2} step={1} onChange={v => handleNestedChange('osc1.octave', v)} isPLocked={isNestedLocked('osc1.octave')} />
-                <Knob label="DETUNE" value={getNestedVal('osc1.detune')} min={-50} max={50} step={0.1} onChange={v => handleNestedChange('osc1.detune', v)} isPLocked={isNestedLocked('osc1.detune')} unit="c"/>
+                <Knob label="OCT" value={getNestedVal('osc1.octave')} min={-2} max={2} step={1} onChange={v => handleNestedChange('osc1.octave', v)} learnPath="osc1.octave" isPLocked={isNestedLocked('osc1.octave')} />
+                <Knob label="DETUNE" value={getNestedVal('osc1.detune')} min={-50} max={50} step={0.1} onChange={v => handleNestedChange('osc1.detune', v)} learnPath="osc1.detune" isPLocked={isNestedLocked('osc1.detune')} unit="c"/>
             </div>
         </div>
          <div className="border border-white/10 rounded p-2 space-y-2">
             <h4 className="text-xs text-center text-gray-400">OSC 2</h4>
             <Selector label="WAVE" value={getNestedVal('osc2.waveform')} options={waveformOptions} onChange={v => handleNestedChange('osc2.waveform', v)} isPLocked={isNestedLocked('osc2.waveform')} />
             <div className="flex justify-around">
-                <Knob label="OCT" value={getNestedVal('osc2.octave')} min={-2} max={2} step={1} onChange={v => handleNestedChange('osc2.octave', v)} isPLocked={isNestedLocked('osc2.octave')} />
-                <Knob label="DETUNE" value={getNestedVal('osc2.detune')} min={-50} max={50} step={0.1} onChange={v => handleNestedChange('osc2.detune', v)} isPLocked={isNestedLocked('osc2.detune')} unit="c"/>
+                <Knob label="OCT" value={getNestedVal('osc2.octave')} min={-2} max={2} step={1} onChange={v => handleNestedChange('osc2.octave', v)} learnPath="osc2.octave" isPLocked={isNestedLocked('osc2.octave')} />
+                <Knob label="DETUNE" value={getNestedVal('osc2.detune')} min={-50} max={50} step={0.1} onChange={v => handleNestedChange('osc2.detune', v)} learnPath="osc2.detune" isPLocked={isNestedLocked('osc2.detune')} unit="c"/>
             </div>
         </div>
       </Section>
       <Section title="MIX & FILTER" gridCols={4}>
-          <Knob label="MIX" value={getVal('oscMix')} min={0} max={100} onChange={v => onParamChange('oscMix', v)} isPLocked={isLocked('oscMix')} />
-          <Knob label="NOISE" value={getVal('noiseLevel')} min={0} max={1} step={0.01} onChange={v => onParamChange('noiseLevel', v)} isPLocked={isLocked('noiseLevel')} />
+          <Knob label="MIX" value={getVal('oscMix')} min={0} max={100} onChange={v => onParamChange('oscMix', v)} learnPath="oscMix" isPLocked={isLocked('oscMix')} />
+          <Knob label="NOISE" value={getVal('noiseLevel')} min={0} max={1} step={0.01} onChange={v => onParamChange('noiseLevel', v)} learnPath="noiseLevel" isPLocked={isLocked('noiseLevel')} />
           <div /><div />
           <Selector label="TYPE" value={getNestedVal('filter.type')} options={FILTER_TYPE_OPTIONS} onChange={v => handleNestedChange('filter.type', v)} isPLocked={isNestedLocked('filter.type')} />
-          <Knob label="CUTOFF" value={getNestedVal('filter.cutoff')} min={20} max={20000} onChange={v => handleNestedChange('filter.cutoff', v)} isPLocked={isNestedLocked('filter.cutoff')} />
-          <Knob label="RESO" value={getNestedVal('filter.resonance')} min={0.1} max={30} step={0.1} onChange={v => handleNestedChange('filter.resonance', v)} isPLocked={isNestedLocked('filter.resonance')} />
+          <Knob label="CUTOFF" value={getNestedVal('filter.cutoff')} min={20} max={20000} onChange={v => handleNestedChange('filter.cutoff', v)} learnPath="filter.cutoff" isPLocked={isNestedLocked('filter.cutoff')} />
+          <Knob label="RESO" value={getNestedVal('filter.resonance')} min={0.1} max={30} step={0.1} onChange={v => handleNestedChange('filter.resonance', v)} learnPath="filter.resonance" isPLocked={isNestedLocked('filter.resonance')} />
       </Section>
       <Section title="AMP ENV">
-          <Knob label="ATK" value={getNestedVal('ampEnv.attack')} min={0.01} max={4} step={0.01} onChange={v => handleNestedChange('ampEnv.attack', v)} isPLocked={isNestedLocked('ampEnv.attack')} />
-          <Knob label="DEC" value={getNestedVal('ampEnv.decay')} min={0.01} max={4} step={0.01} onChange={v => handleNestedChange('ampEnv.decay', v)} isPLocked={isNestedLocked('ampEnv.decay')} />
-          <Knob label="SUS" value={getNestedVal('ampEnv.sustain')} min={0} max={1} step={0.01} onChange={v => handleNestedChange('ampEnv.sustain', v)} isPLocked={isNestedLocked('ampEnv.sustain')} />
-          <Knob label="REL" value={getNestedVal('ampEnv.release')} min={0.01} max={4} step={0.01} onChange={v => handleNestedChange('ampEnv.release', v)} isPLocked={isNestedLocked('ampEnv.release')} />
+          <Knob label="ATK" value={getNestedVal('ampEnv.attack')} min={0.01} max={4} step={0.01} onChange={v => handleNestedChange('ampEnv.attack', v)} learnPath="ampEnv.attack" isPLocked={isNestedLocked('ampEnv.attack')} />
+          <Knob label="DEC" value={getNestedVal('ampEnv.decay')} min={0.01} max={4} step={0.01} onChange={v => handleNestedChange('ampEnv.decay', v)} learnPath="ampEnv.decay" isPLocked={isNestedLocked('ampEnv.decay')} />
+          <Knob label="SUS" value={getNestedVal('ampEnv.sustain')} min={0} max={1} step={0.01} onChange={v => handleNestedChange('ampEnv.sustain', v)} learnPath="ampEnv.sustain" isPLocked={isNestedLocked('ampEnv.sustain')} />
+          <Knob label="REL" value={getNestedVal('ampEnv.release')} min={0.01} max={4} step={0.01} onChange={v => handleNestedChange('ampEnv.release', v)} learnPath="ampEnv.release" isPLocked={isNestedLocked('ampEnv.release')} />
       </Section>
+      <ArpSection params={track.params} pLocks={pLocks} trackType={track.type} onParamChange={onParamChange} />
       <LFOSection lfoNum={1} params={track.params} pLocks={pLocks} trackType={track.type} onParamChange={onParamChange} destinationOptions={destOptions} />
       <LFOSection lfoNum={2} params={track.params} pLocks={pLocks} trackType={track.type} onParamChange={onParamChange} destinationOptions={destOptions} />
     </>
@@ -255,12 +284,13 @@ const InstrumentEditor: React.FC<InstrumentEditorProps> = ({ track, pLocks, onPa
         <>
             <Section title="BASSLINE">
                 <Selector label="WAVE" value={getVal('waveform')} options={waveformOptions} onChange={v => onParamChange('waveform', v)} isPLocked={isLocked('waveform')} />
-                <Knob label="CUTOFF" value={getVal('cutoff')} min={20} max={20000} onChange={v => onParamChange('cutoff', v)} isPLocked={isLocked('cutoff')} />
-                <Knob label="RESO" value={getVal('resonance')} min={0} max={30} step={0.1} onChange={v => onParamChange('resonance', v)} isPLocked={isLocked('resonance')} />
-                <Knob label="DECAY" value={getVal('decay')} min={0.01} max={1.0} step={0.01} onChange={v => onParamChange('decay', v)} isPLocked={isLocked('decay')} />
-                <Knob label="ACCENT" value={getVal('accent')} min={0} max={100} onChange={v => onParamChange('accent', v)} isPLocked={isLocked('accent')} />
+                <Knob label="CUTOFF" value={getVal('cutoff')} min={20} max={20000} onChange={v => onParamChange('cutoff', v)} learnPath="cutoff" isPLocked={isLocked('cutoff')} />
+                <Knob label="RESO" value={getVal('resonance')} min={0} max={30} step={0.1} onChange={v => onParamChange('resonance', v)} learnPath="resonance" isPLocked={isLocked('resonance')} />
+                <Knob label="DECAY" value={getVal('decay')} min={0.01} max={1.0} step={0.01} onChange={v => onParamChange('decay', v)} learnPath="decay" isPLocked={isLocked('decay')} />
+                <Knob label="ACCENT" value={getVal('accent')} min={0} max={100} onChange={v => onParamChange('accent', v)} learnPath="accent" isPLocked={isLocked('accent')} />
             </Section>
             <FilterSection params={track.params} pLocks={pLocks} trackType={track.type} onParamChange={onParamChange} />
+            <ArpSection params={track.params} pLocks={pLocks} trackType={track.type} onParamChange={onParamChange} />
             <LFOSection lfoNum={1} params={track.params} pLocks={pLocks} trackType={track.type} onParamChange={onParamChange} destinationOptions={destOptions} />
             <LFOSection lfoNum={2} params={track.params} pLocks={pLocks} trackType={track.type} onParamChange={onParamChange} destinationOptions={destOptions} />
         </>
@@ -275,12 +305,13 @@ const InstrumentEditor: React.FC<InstrumentEditorProps> = ({ track, pLocks, onPa
     ];
       return <>
         <Section title="MODAL">
-            <Knob label="STRUCT" value={getVal('structure')} min={0} max={100} onChange={v => onParamChange('structure', v)} isPLocked={isLocked('structure')} />
-            <Knob label="BRIGHT" value={getVal('brightness')} min={0} max={100} onChange={v => onParamChange('brightness', v)} isPLocked={isLocked('brightness')} />
-            <Knob label="DECAY" value={getVal('decay')} min={0.01} max={1} step={0.01} onChange={v => onParamChange('decay', v)} isPLocked={isLocked('decay')} />
-            <Knob label="DAMPING" value={getVal('damping')} min={0} max={100} onChange={v => onParamChange('damping', v)} isPLocked={isLocked('damping')} />
+            <Knob label="STRUCT" value={getVal('structure')} min={0} max={100} onChange={v => onParamChange('structure', v)} learnPath="structure" isPLocked={isLocked('structure')} />
+            <Knob label="BRIGHT" value={getVal('brightness')} min={0} max={100} onChange={v => onParamChange('brightness', v)} learnPath="brightness" isPLocked={isLocked('brightness')} />
+            <Knob label="DECAY" value={getVal('decay')} min={0.01} max={1} step={0.01} onChange={v => onParamChange('decay', v)} learnPath="decay" isPLocked={isLocked('decay')} />
+            <Knob label="DAMPING" value={getVal('damping')} min={0} max={100} onChange={v => onParamChange('damping', v)} learnPath="damping" isPLocked={isLocked('damping')} />
         </Section>
         <FilterSection params={track.params} pLocks={pLocks} trackType={track.type} onParamChange={onParamChange} />
+        <ArpSection params={track.params} pLocks={pLocks} trackType={track.type} onParamChange={onParamChange} />
         <LFOSection lfoNum={1} params={track.params} pLocks={pLocks} trackType={track.type} onParamChange={onParamChange} destinationOptions={destOptions} />
         <LFOSection lfoNum={2} params={track.params} pLocks={pLocks} trackType={track.type} onParamChange={onParamChange} destinationOptions={destOptions} />
       </>
@@ -294,11 +325,11 @@ const InstrumentEditor: React.FC<InstrumentEditorProps> = ({ track, pLocks, onPa
     ];
     return <>
       <Section title="RIFT SYNTH">
-        <Knob label="PITCH" value={getVal('pitch')} min={-1200} max={1200} onChange={v => onParamChange('pitch', v)} isPLocked={isLocked('pitch')} unit="c"/>
-        <Knob label="FOLD" value={getVal('fold')} min={0} max={100} onChange={v => onParamChange('fold', v)} isPLocked={isLocked('fold')} />
-        <Knob label="DRIVE" value={getVal('drive')} min={0} max={100} onChange={v => onParamChange('drive', v)} isPLocked={isLocked('drive')} />
-        <Knob label="FDBK" value={getVal('feedback')} min={0} max={95} onChange={v => onParamChange('feedback', v)} isPLocked={isLocked('feedback')} unit="%"/>
-        <Knob label="DECAY" value={getVal('decay')} min={0.01} max={2} step={0.01} onChange={v => onParamChange('decay', v)} isPLocked={isLocked('decay')} />
+        <Knob label="PITCH" value={getVal('pitch')} min={-1200} max={1200} onChange={v => onParamChange('pitch', v)} learnPath="pitch" isPLocked={isLocked('pitch')} unit="c"/>
+        <Knob label="FOLD" value={getVal('fold')} min={0} max={100} onChange={v => onParamChange('fold', v)} learnPath="fold" isPLocked={isLocked('fold')} />
+        <Knob label="DRIVE" value={getVal('drive')} min={0} max={100} onChange={v => onParamChange('drive', v)} learnPath="drive" isPLocked={isLocked('drive')} />
+        <Knob label="FDBK" value={getVal('feedback')} min={0} max={95} onChange={v => onParamChange('feedback', v)} learnPath="feedback" isPLocked={isLocked('feedback')} unit="%"/>
+        <Knob label="DECAY" value={getVal('decay')} min={0.01} max={2} step={0.01} onChange={v => onParamChange('decay', v)} learnPath="decay" isPLocked={isLocked('decay')} />
       </Section>
       <FilterSection params={track.params} pLocks={pLocks} trackType={track.type} onParamChange={onParamChange} />
       <LFOSection lfoNum={1} params={track.params} pLocks={pLocks} trackType={track.type} onParamChange={onParamChange} destinationOptions={destOptions} />
@@ -314,11 +345,11 @@ const InstrumentEditor: React.FC<InstrumentEditorProps> = ({ track, pLocks, onPa
     ];
     return <>
       <Section title="GRAIN">
-        <Knob label="PITCH" value={getVal('pitch')} min={-1200} max={1200} onChange={v => onParamChange('pitch', v)} isPLocked={isLocked('pitch')} unit="c"/>
-        <Knob label="DECAY" value={getVal('decay')} min={0.1} max={2} step={0.01} onChange={v => onParamChange('decay', v)} isPLocked={isLocked('decay')} />
-        <Knob label="DENSITY" value={getVal('density')} min={0} max={100} onChange={v => onParamChange('density', v)} isPLocked={isLocked('density')} />
-        <Knob label="SPREAD" value={getVal('spread')} min={0} max={100} onChange={v => onParamChange('spread', v)} isPLocked={isLocked('spread')} />
-        <Knob label="SIZE" value={getVal('grainSize')} min={0} max={100} onChange={v => onParamChange('grainSize', v)} isPLocked={isLocked('grainSize')} />
+        <Knob label="PITCH" value={getVal('pitch')} min={-1200} max={1200} onChange={v => onParamChange('pitch', v)} learnPath="pitch" isPLocked={isLocked('pitch')} unit="c"/>
+        <Knob label="DECAY" value={getVal('decay')} min={0.1} max={2} step={0.01} onChange={v => onParamChange('decay', v)} learnPath="decay" isPLocked={isLocked('decay')} />
+        <Knob label="DENSITY" value={getVal('density')} min={0} max={100} onChange={v => onParamChange('density', v)} learnPath="density" isPLocked={isLocked('density')} />
+        <Knob label="SPREAD" value={getVal('spread')} min={0} max={100} onChange={v => onParamChange('spread', v)} learnPath="spread" isPLocked={isLocked('spread')} />
+        <Knob label="SIZE" value={getVal('grainSize')} min={0} max={100} onChange={v => onParamChange('grainSize', v)} learnPath="grainSize" isPLocked={isLocked('grainSize')} />
       </Section>
       <FilterSection params={track.params} pLocks={pLocks} trackType={track.type} onParamChange={onParamChange} />
       <LFOSection lfoNum={1} params={track.params} pLocks={pLocks} trackType={track.type} onParamChange={onParamChange} destinationOptions={destOptions} />
@@ -334,10 +365,51 @@ const InstrumentEditor: React.FC<InstrumentEditorProps> = ({ track, pLocks, onPa
     ];
     return <>
       <Section title="SCREAM">
-        <Knob label="PITCH" value={getVal('pitch')} min={-1200} max={1200} onChange={v => onParamChange('pitch', v)} isPLocked={isLocked('pitch')} unit="c"/>
-        <Knob label="DECAY" value={getVal('decay')} min={0.1} max={2} step={0.01} onChange={v => onParamChange('decay', v)} isPLocked={isLocked('decay')} />
-        <Knob label="FDBK" value={getVal('feedback')} min={0} max={100} onChange={v => onParamChange('feedback', v)} isPLocked={isLocked('feedback')} />
-        <Knob label="DAMPING" value={getVal('damping')} min={100} max={10000} onChange={v => onParamChange('damping', v)} isPLocked={isLocked('damping')} unit="hz" />
+        <Knob label="PITCH" value={getVal('pitch')} min={-1200} max={1200} onChange={v => onParamChange('pitch', v)} learnPath="pitch" isPLocked={isLocked('pitch')} unit="c"/>
+        <Knob label="DECAY" value={getVal('decay')} min={0.1} max={2} step={0.01} onChange={v => onParamChange('decay', v)} learnPath="decay" isPLocked={isLocked('decay')} />
+        <Knob label="FDBK" value={getVal('feedback')} min={0} max={100} onChange={v => onParamChange('feedback', v)} learnPath="feedback" isPLocked={isLocked('feedback')} />
+        <Knob label="DAMPING" value={getVal('damping')} min={100} max={10000} onChange={v => onParamChange('damping', v)} learnPath="damping" isPLocked={isLocked('damping')} unit="hz" />
+      </Section>
+      <FilterSection params={track.params} pLocks={pLocks} trackType={track.type} onParamChange={onParamChange} />
+      <ArpSection params={track.params} pLocks={pLocks} trackType={track.type} onParamChange={onParamChange} />
+      <LFOSection lfoNum={1} params={track.params} pLocks={pLocks} trackType={track.type} onParamChange={onParamChange} destinationOptions={destOptions} />
+      <LFOSection lfoNum={2} params={track.params} pLocks={pLocks} trackType={track.type} onParamChange={onParamChange} destinationOptions={destOptions} />
+    </>
+  };
+
+  const renderSampleEditor = () => {
+    const destOptions: {value: LFODestination, label: string}[] = [
+        {value: 'none', label: 'NONE'}, {value: 'pitch', label: 'PITCH'}, {value: 'volume', label: 'VOL'},
+        {value: 'filterCutoff', label: 'CUT'}, {value: 'filterResonance', label: 'RES'}
+    ];
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) onSampleLoad(file);
+    };
+    return <>
+      <div className="flex items-center space-x-1 px-2 pb-2">
+        <span className="flex-grow min-w-0 truncate text-[11px] font-bold bg-[#111] px-2 py-1 rounded-sm border border-black/50">
+            {getVal('sampleName') || 'NO SAMPLE'}
+        </span>
+        <label title="Load an audio file onto the track" className="px-2 py-1 text-xs font-bold rounded-sm bg-gray-700 hover:bg-gray-600 border border-black/50 cursor-pointer">
+            LOAD
+            <input type="file" accept={SAMPLE_FILE_ACCEPT} onChange={handleFileChange} className="hidden" />
+        </label>
+      </div>
+      <Section title="SAMPLE">
+        <Knob label="PITCH" value={getVal('pitch')} min={-1200} max={1200} onChange={v => onParamChange('pitch', v)} learnPath="pitch" isPLocked={isLocked('pitch')} unit="c"/>
+        <Knob label="START" value={getVal('start')} min={0} max={100} step={0.1} onChange={v => onParamChange('start', v)} learnPath="start" isPLocked={isLocked('start')} unit="%"/>
+        <Knob label="END" value={getVal('end')} min={0} max={100} step={0.1} onChange={v => onParamChange('end', v)} learnPath="end" isPLocked={isLocked('end')} unit="%"/>
+        <div />
+        <Selector label="REVERSE" value={getVal('reverse') ? 'on' : 'off'} options={SWITCH_OPTIONS} onChange={v => onParamChange('reverse', v === 'on')} isPLocked={isLocked('reverse')} />
+        <Selector label="LOOP" value={getVal('loop') ? 'on' : 'off'} options={SWITCH_OPTIONS} onChange={v => onParamChange('loop', v === 'on')} isPLocked={isLocked('loop')} />
+      </Section>
+      <Section title="AMP ENV">
+          <Knob label="ATK" value={getNestedVal('ampEnv.attack')} min={0.001} max={4} step={0.001} onChange={v => handleNestedChange('ampEnv.attack', v)} learnPath="ampEnv.attack" isPLocked={isNestedLocked('ampEnv.attack')} />
+          <Knob label="DEC" value={getNestedVal('ampEnv.decay')} min={0.01} max={8} step={0.01} onChange={v => handleNestedChange('ampEnv.decay', v)} learnPath="ampEnv.decay" isPLocked={isNestedLocked('ampEnv.decay')} />
+          <Knob label="SUS" value={getNestedVal('ampEnv.sustain')} min={0} max={1} step={0.01} onChange={v => handleNestedChange('ampEnv.sustain', v)} learnPath="ampEnv.sustain" isPLocked={isNestedLocked('ampEnv.sustain')} />
+          <Knob label="REL" value={getNestedVal('ampEnv.release')} min={0.01} max={4} step={0.01} onChange={v => handleNestedChange('ampEnv.release', v)} learnPath="ampEnv.release" isPLocked={isNestedLocked('ampEnv.release')} />
       </Section>
       <FilterSection params={track.params} pLocks={pLocks} trackType={track.type} onParamChange={onParamChange} />
       <LFOSection lfoNum={1} params={track.params} pLocks={pLocks} trackType={track.type} onParamChange={onParamChange} destinationOptions={destOptions} />
@@ -355,14 +427,21 @@ const InstrumentEditor: React.FC<InstrumentEditorProps> = ({ track, pLocks, onPa
       case 'rift': return renderRiftEditor();
       case 'grain': return renderGrainEditor();
       case 'scream': return renderScreamEditor();
+      case 'sample': return renderSampleEditor();
       default: return null;
     }
   };
 
   return (
-    <div className="font-mono text-sm text-[var(--text-screen)] h-full overflow-y-auto no-scrollbar pt-2">
-        {renderContent()}
-    </div>
+    <MidiLearnScopeContext.Provider value={{ scope: 'track', trackId: track.id }}>
+      <div className="font-mono text-sm text-[var(--text-screen)] h-full overflow-y-auto no-scrollbar pt-2">
+          <div className="px-2 pb-2 w-40" title="Switching the engine resets the track's sound; the steps stay">
+              <Selector label="ENGINE" value={track.type} options={ENGINE_OPTIONS} onChange={v => onTypeChange(v as TrackType)} />
+          </div>
+          <PresetManager track={track} presets={presets} onLoad={onPresetLoad} onSave={onPresetSave} onDelete={onPresetDelete} />
+          {renderContent()}
+      </div>
+    </MidiLearnScopeContext.Provider>
   );
 };
 
@@ -1,4 +1,5 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useContext } from 'react';
+import { MidiLearnContext, MidiLearnScopeContext, createLearnTarget, getTargetKey } from '../midiLearn';
 
 interface KnobProps {
   label: string;
@@ -13,9 +14,18 @@ interface KnobProps {
   disabled?: boolean;
   displayTransform?: (value: number) => string;
   className?: string;
+  learnPath?: string;
 }
 
-const Knob: React.FC<KnobProps> = ({ label, value, min, max, step = 1, onChange, size = 50, unit = '', isPLocked = false, disabled = false, displayTransform, className = '' }) => {
+const Knob: React.FC<KnobProps> = ({ label, value, min, max, step = 1, onChange, size = 50, unit = '', isPLocked = false, disabled = false, displayTransform, className = '', learnPath }) => {
+  const midiLearn = useContext(MidiLearnContext);
+  const learnScope = useContext(MidiLearnScopeContext);
+  const learnTarget = learnPath && learnScope ? createLearnTarget(learnScope, learnPath) : null;
+  const learnKey = learnTarget ? getTargetKey(learnTarget) : null;
+  const isLearnable = midiLearn.active && learnTarget !== null;
+  const isLearnSelected = isLearnable && midiLearn.selectedKey === learnKey;
+  const isMapped = learnKey !== null && midiLearn.mappedKeys.has(learnKey);
+
   const dragState = useRef({
       isDragging: false,
       initialY: 0,
@@ -96,6 +106,11 @@ const Knob: React.FC<KnobProps> = ({ label, value, min, max, step = 1, onChange,
     if (disabled) return;
     if ('button' in e && e.button !== 0) return;
     e.preventDefault();
+
+    if (isLearnable && learnTarget) {
+        midiLearn.onSelect(learnTarget, { min, max, step });
+        return;
+    }
     
     dragState.isDragging = true;
     dragState.initialY = 'touches' in e ? e.touches[0].clientY : e.clientY;
@@ -111,7 +126,7 @@ const Knob: React.FC<KnobProps> = ({ label, value, min, max, step = 1, onChange,
     window.addEventListener('touchmove', handleInteractionMove, { passive: false });
     window.addEventListener('mouseup', handleInteractionEnd);
     window.addEventListener('touchend', handleInteractionEnd);
-  }, [value, min, handleInteractionMove, handleInteractionEnd, dragState, disabled]);
+  }, [value, min, max, step, handleInteractionMove, handleInteractionEnd, dragState, disabled, isLearnable, learnTarget, midiLearn]);
   
   const formattedValue = () => {
       if (typeof value !== 'number' || isNaN(value)) return '---';
@@ -127,7 +142,7 @@ const Knob: React.FC<KnobProps> = ({ label, value, min, max, step = 1, onChange,
       <span className="text-[var(--text-muted)] text-[10px] uppercase tracking-wider font-display h-4 flex items-center">{label}</span>
       <div
         className={`relative rounded-full flex items-center justify-center bg-[#282828] border border-black/50 transition-shadow duration-150 ${disabled ? '' : 'cursor-ns-resize'}`}
-        style={{ width: size, height: size, boxShadow: 'inset 0 1px 2px #000a, 0 1px 0px #444a' }}
+        style={{ width: size, height: size, boxShadow: isLearnSelected ? '0 0 0 2px var(--accent-color), 0 0 10px var(--accent-glow)' : isLearnable ? '0 0 0 1px #e74c3c88, inset 0 1px 2px #000a' : 'inset 0 1px 2px #000a, 0 1px 0px #444a' }}
         onMouseDown={handleInteractionStart}
         onTouchStart={handleInteractionStart}
       >
@@ -145,6 +160,9 @@ const Knob: React.FC<KnobProps> = ({ label, value, min, max, step = 1, onChange,
             }}
           />
         </div>
+        {isMapped && (
+          <div className="absolute w-1.5 h-1.5 rounded-full bg-sky-400" style={{ bottom: '-2px', right: '-2px' }} title="MIDI CC mapped" />
+        )}
       </div>
        <div className="text-[11px] font-bold px-1.5 py-0.5 bg-[#111] rounded-sm flex items-center justify-center min-h-[20px] w-full text-center border border-black/50" style={{ color: 'var(--text-screen)' }}>
         <span>{formattedValue()}{!displayTransform && unit}</span>
@@ -0,0 +1,164 @@
+import React from 'react';
+import { Track, MidiNoteMapEntry, MidiCCMapping, TrackMidiOut } from '../types';
+import { ClockMode, MidiPortInfo } from '../midi';
+import { midiToNoteName } from '../utils';
+import { describeTarget } from '../midiLearn';
+import { createTrackMidiOut } from '../constants';
+import Knob from './Knob';
+
+interface MidiSettingsProps {
+    midiEnabled: boolean;
+    inputs: MidiPortInfo[];
+    outputs: MidiPortInfo[];
+    clockMode: ClockMode;
+    clockInputId: string | null;
+    clockOutputId: string | null;
+    onEnableMidi: () => void;
+    onClockModeChange: (mode: ClockMode) => void;
+    onClockInputChange: (id: string | null) => void;
+    onClockOutputChange: (id: string | null) => void;
+    onTrackMidiOutChange: (trackId: number, midiOut: TrackMidiOut) => void;
+    tracks: Track[];
+    noteInputId: string | null;
+    noteMap: MidiNoteMapEntry[];
+    recordQuantize: boolean;
+    onNoteInputChange: (id: string | null) => void;
+    onNoteMapChange: (noteMap: MidiNoteMapEntry[]) => void;
+    onRecordQuantizeToggle: () => void;
+    ccMappings: MidiCCMapping[];
+    onCCMappingsChange: (mappings: MidiCCMapping[]) => void;
+}
+
+const Section: React.FC<{ title: string; children: React.ReactNode, gridCols?: number }> = ({ title, children, gridCols = 4 }) => (
+    <div className="border-t border-[var(--accent-color)]/20 py-2">
+        <h3 className="text-sm font-bold text-[var(--accent-color)]/80 uppercase tracking-widest mb-2 px-2">{title}</h3>
+        <div className={`grid gap-x-1 gap-y-3 px-1`} style={{gridTemplateColumns: `repeat(${gridCols}, minmax(0, 1fr))`}}>
+            {children}
+        </div>
+    </div>
+);
+
+const Selector: React.FC<{ label: string; value: string; options: {value: string, label: string}[]; onChange: (value: string) => void; }> = ({ label, value, options, onChange }) => {
+    const currentIndex = options.findIndex(o => o.value === value);
+    const next = () => onChange(options[(currentIndex + 1) % options.length].value);
+    const prev = () => onChange(options[(currentIndex - 1 + options.length) % options.length].value);
+
+    return (
+        <div className="flex flex-col items-center space-y-1.5 select-none w-full">
+            <span className="text-[var(--text-muted)] text-[10px] uppercase tracking-wider font-display h-4">{label}</span>
+            <div className="flex items-center justify-center w-full">
+                <button onClick={prev} className="px-1 text-gray-500 hover:text-white">{'<'}</button>
+                <span className="flex-grow text-center text-[11px] font-mono font-bold text-[var(--text-screen)] bg-[#111] px-2 py-1 rounded-sm border border-black/50 truncate">
+                    {options.find(o => o.value === value)?.label || '---'}
+                </span>
+                <button onClick={next} className="px-1 text-gray-500 hover:text-white">{'>'}</button>
+            </div>
+        </div>
+    );
+};
+
+const CLOCK_MODE_OPTIONS: {value: ClockMode, label: string}[] = [{value: 'off', label: 'OFF'}, {value: 'master', label: 'SEND'}, {value: 'follow', label: 'RECEIVE'}];
+const NO_PORT = '';
+
+const portOptions = (ports: MidiPortInfo[], noneLabel: string) =>
+    [{ value: NO_PORT, label: noneLabel }, ...ports.map(p => ({ value: p.id, label: p.name.toUpperCase() }))];
+
+const MidiSettings: React.FC<MidiSettingsProps> = ({
+    midiEnabled, inputs, outputs, clockMode, clockInputId, clockOutputId,
+    onEnableMidi, onClockModeChange, onClockInputChange, onClockOutputChange, onTrackMidiOutChange,
+    tracks, noteInputId, noteMap, recordQuantize, onNoteInputChange, onNoteMapChange, onRecordQuantizeToggle,
+    ccMappings, onCCMappingsChange
+}) => {
+    if (!midiEnabled) {
+        return (
+            <div className="h-full flex flex-col items-center justify-center space-y-3 font-mono">
+                <span className="text-xs text-gray-500">MIDI IS DISABLED</span>
+                <button onClick={onEnableMidi} className="px-4 py-2 text-xs font-bold rounded-sm bg-gray-700 hover:bg-gray-600 border border-black/50">ENABLE MIDI</button>
+            </div>
+        );
+    }
+
+    const getMapEntry = (trackId: number): MidiNoteMapEntry =>
+        noteMap.find(e => e.trackId === trackId) ?? { trackId, channel: null, note: null };
+
+    const handleMapChange = (trackId: number, changes: Partial<MidiNoteMapEntry>) => {
+        const entry = { ...getMapEntry(trackId), ...changes };
+        onNoteMapChange([...noteMap.filter(e => e.trackId !== trackId), entry].sort((a, b) => a.trackId - b.trackId));
+    };
+
+    return (
+        <div className="font-mono text-sm text-[var(--text-screen)] h-full overflow-y-auto no-scrollbar pt-2">
+            <Section title="CLOCK" gridCols={3}>
+                <Selector label="SYNC" value={clockMode} options={CLOCK_MODE_OPTIONS} onChange={v => onClockModeChange(v as ClockMode)} />
+                <Selector label="CLOCK IN" value={clockInputId ?? NO_PORT} options={portOptions(inputs, 'ALL')} onChange={v => onClockInputChange(v || null)} />
+                <Selector label="CLOCK OUT" value={clockOutputId ?? NO_PORT} options={portOptions(outputs, 'NONE')} onChange={v => onClockOutputChange(v || null)} />
+            </Section>
+            <Section title="NOTE INPUT" gridCols={3}>
+                <Selector label="NOTE/CC IN" value={noteInputId ?? NO_PORT} options={portOptions(inputs, 'ALL')} onChange={v => onNoteInputChange(v || null)} />
+                <div className="flex flex-col items-center space-y-1.5">
+                    <span className="text-[var(--text-muted)] text-[10px] uppercase tracking-wider font-display h-4">REC QUANTIZE</span>
+                    <button onClick={onRecordQuantizeToggle}
+                        className={`px-2 py-1 text-[10px] font-bold rounded-sm transition-all border ${recordQuantize ? 'bg-[var(--accent-color)] text-black border-[var(--accent-color)]' : 'bg-gray-700/50 text-gray-300 border-black/50'}`}>
+                        {recordQuantize ? 'ON' : 'OFF'}
+                    </button>
+                </div>
+            </Section>
+            <Section title="NOTE MAP" gridCols={4}>
+                {tracks.map(track => {
+                    const entry = getMapEntry(track.id);
+                    return (
+                        <div key={track.id} className="flex flex-col items-center border border-white/10 rounded p-1">
+                            <h4 className="text-[10px] text-center text-gray-400 uppercase">{track.name}</h4>
+                            <div className="flex justify-around w-full">
+                                <Knob label="CH" value={entry.channel === null ? 0 : entry.channel + 1} min={0} max={16} step={1} size={28}
+                                    displayTransform={v => v === 0 ? 'ALL' : String(v)}
+                                    onChange={v => handleMapChange(track.id, { channel: v === 0 ? null : v - 1 })} />
+                                <Knob label="NOTE" value={entry.note === null ? -1 : entry.note} min={-1} max={127} step={1} size={28}
+                                    displayTransform={v => v < 0 ? 'ANY' : midiToNoteName(v)}
+                                    onChange={v => handleMapChange(track.id, { note: v < 0 ? null : v })} />
+                            </div>
+                        </div>
+                    );
+                })}
+            </Section>
+            <Section title="NOTE OUTPUT" gridCols={4}>
+                {tracks.map(track => {
+                    const midiOut = track.midiOut ?? createTrackMidiOut(track.id);
+                    const update = (changes: Partial<TrackMidiOut>) => onTrackMidiOutChange(track.id, { ...midiOut, ...changes });
+                    return (
+                        <div key={track.id} className="flex flex-col items-center border border-white/10 rounded p-1 space-y-1">
+                            <h4 className="text-[10px] text-center text-gray-400 uppercase">{track.name}</h4>
+                            <Selector label="PORT" value={midiOut.outputId ?? NO_PORT} options={portOptions(outputs, 'NONE')} onChange={v => update({ outputId: v || null })} />
+                            <div className="flex justify-around w-full">
+                                <Knob label="CH" value={midiOut.channel + 1} min={1} max={16} step={1} size={28} onChange={v => update({ channel: v - 1 })} />
+                                <Knob label="GATE" value={midiOut.gate} min={0.05} max={4} step={0.05} size={28} displayTransform={v => v.toFixed(2)} onChange={v => update({ gate: v })} />
+                            </div>
+                            <button onClick={() => update({ internal: !midiOut.internal })} title="Keep the internal voice playing alongside MIDI out"
+                                className={`px-2 py-0.5 text-[10px] font-bold rounded-sm transition-all border ${midiOut.internal ? 'bg-[var(--accent-color)] text-black border-[var(--accent-color)]' : 'bg-gray-700/50 text-gray-300 border-black/50'}`}>
+                                INT {midiOut.internal ? 'ON' : 'OFF'}
+                            </button>
+                        </div>
+                    );
+                })}
+            </Section>
+            <div className="border-t border-[var(--accent-color)]/20 py-2">
+                <h3 className="text-sm font-bold text-[var(--accent-color)]/80 uppercase tracking-widest mb-2 px-2">CC MAP</h3>
+                {ccMappings.length === 0 && <p className="px-2 text-[10px] text-gray-500">PRESS LEARN, CLICK A KNOB AND MOVE A CONTROLLER</p>}
+                <div className="flex flex-col space-y-0.5 px-1">
+                    {ccMappings.map((mapping, i) => {
+                        const trackName = mapping.target.scope === 'fx' ? undefined : tracks.find(t => t.id === mapping.target.trackId)?.name;
+                        return (
+                            <div key={i} className="flex items-center bg-[#111] rounded-sm border border-black/50 text-[10px] px-1">
+                                <span className="w-20 text-gray-400">CH{mapping.channel + 1} CC{mapping.controller}</span>
+                                <span className="flex-grow uppercase truncate">{describeTarget(mapping.target, trackName)}</span>
+                                <button onClick={() => onCCMappingsChange(ccMappings.filter((_, j) => j !== i))} className="px-1 text-gray-500 hover:text-red-400" title="Remove mapping">&times;</button>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default React.memo(MidiSettings);
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Track } from '../types';
 import Knob from './Knob';
+import { MidiLearnScopeContext } from '../midiLearn';
 
 interface MixerProps {
     tracks: Track[];
@@ -30,36 +31,42 @@ const Mixer: React.FC<MixerProps> = ({
                             <h3 className="font-bold text-sm uppercase" style={{color: 'var(--accent-color)'}}>{track.name}</h3>
                         </div>
                         
-                        <div className="flex-grow flex flex-col items-center justify-around w-full">
-                            <Knob 
-                                label="VOLUME"
-                                value={track.volume}
-                                min={0} max={2.0} step={0.01}
-                                onChange={(v) => onVolumeChange(track.id, v)}
-                                size={45}
-                            />
-                             <Knob 
-                                label="REVERB"
-                                value={track.fxSends.reverb}
-                                min={0} max={1} step={0.01}
-                                onChange={(v) => onFxSendChange(track.id, 'reverb', v)}
-                                size={35}
-                            />
-                             <Knob 
-                                label="DELAY"
-                                value={track.fxSends.delay}
-                                min={0} max={1} step={0.01}
-                                onChange={(v) => onFxSendChange(track.id, 'delay', v)}
-                                size={35}
-                            />
-                             <Knob 
-                                label="DRIVE"
-                                value={track.fxSends.drive}
-                                min={0} max={1} step={0.01}
-                                onChange={(v) => onFxSendChange(track.id, 'drive', v)}
-                                size={35}
-                            />
-                        </div>
+                        <MidiLearnScopeContext.Provider value={{ scope: 'mixer', trackId: track.id }}>
+                            <div className="flex-grow flex flex-col items-center justify-around w-full">
+                                <Knob 
+                                    label="VOLUME"
+                                    value={track.volume}
+                                    min={0} max={2.0} step={0.01}
+                                    onChange={(v) => onVolumeChange(track.id, v)}
+                                    learnPath="volume"
+                                    size={45}
+                                />
+                                 <Knob 
+                                    label="REVERB"
+                                    value={track.fxSends.reverb}
+                                    min={0} max={1} step={0.01}
+                                    onChange={(v) => onFxSendChange(track.id, 'reverb', v)}
+                                    learnPath="fxSends.reverb"
+                                    size={35}
+                                />
+                                 <Knob 
+                                    label="DELAY"
+                                    value={track.fxSends.delay}
+                                    min={0} max={1} step={0.01}
+                                    onChange={(v) => onFxSendChange(track.id, 'delay', v)}
+                                    learnPath="fxSends.delay"
+                                    size={35}
+                                />
+                                 <Knob 
+                                    label="DRIVE"
+                                    value={track.fxSends.drive}
+                                    min={0} max={1} step={0.01}
+                                    onChange={(v) => onFxSendChange(track.id, 'drive', v)}
+                                    learnPath="fxSends.drive"
+                                    size={35}
+                                />
+                            </div>
+                        </MidiLearnScopeContext.Provider>
 
                         <div className="flex-shrink-0 flex space-x-1 w-full">
                             <button 
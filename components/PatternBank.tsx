@@ -0,0 +1,97 @@
+import React, { useState, useEffect } from 'react';
+import { Pattern, ChainEntry } from '../types';
+import { PATTERN_BANKS, PATTERNS_PER_BANK } from '../constants';
+import { patternName, isPatternEmpty } from '../patternBank';
+
+interface PatternBankProps {
+    patterns: Pattern[];
+    currentPatternIndex: number;
+    queuedPatternIndex: number | null;
+    chain: ChainEntry[];
+    songMode: boolean;
+    canPaste: boolean;
+    onPatternSelect: (index: number) => void;
+    onCopy: () => void;
+    onPaste: () => void;
+    onClear: () => void;
+    onChainChange: (chain: ChainEntry[]) => void;
+    onSongModeToggle: () => void;
+    onTransposeChange: (transpose: number) => void;
+}
+
+const PatternBank: React.FC<PatternBankProps> = ({
+    patterns, currentPatternIndex, queuedPatternIndex, chain, songMode, canPaste,
+    onPatternSelect, onCopy, onPaste, onClear, onChainChange, onSongModeToggle, onTransposeChange
+}) => {
+    const transpose = patterns[currentPatternIndex]?.transpose ?? 0;
+    const [selectedBank, setSelectedBank] = useState(Math.floor(currentPatternIndex / PATTERNS_PER_BANK));
+
+    // Follow the playing pattern into its bank when a chain or queue moves it
+    useEffect(() => {
+        setSelectedBank(Math.floor(currentPatternIndex / PATTERNS_PER_BANK));
+    }, [currentPatternIndex]);
+
+    const handleAddToChain = () => onChainChange([...chain, { patternIndex: currentPatternIndex, repeats: 1 }]);
+    const handleRepeatsChange = (entryIndex: number, delta: number) => {
+        onChainChange(chain.map((entry, i) => i === entryIndex ? { ...entry, repeats: Math.max(1, Math.min(64, entry.repeats + delta)) } : entry));
+    };
+    const handleRemoveFromChain = (entryIndex: number) => onChainChange(chain.filter((_, i) => i !== entryIndex));
+
+    return (
+        <div className="bg-black/30 p-2 rounded border border-black flex flex-col space-y-2">
+            <div className="flex items-center space-x-2">
+                <div className="flex space-x-0.5">
+                    {PATTERN_BANKS.map((bank, i) => (
+                        <button key={bank} onClick={() => setSelectedBank(i)}
+                            className={`w-6 h-6 text-[11px] font-bold rounded-sm border border-black/50 ${selectedBank === i ? 'bg-[var(--accent-color)] text-black' : 'bg-gray-800 hover:bg-gray-700 text-gray-300'}`}>
+                            {bank}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex-grow grid grid-cols-16 gap-0.5">
+                    {Array.from({ length: PATTERNS_PER_BANK }).map((_, slot) => {
+                        const index = selectedBank * PATTERNS_PER_BANK + slot;
+                        const isCurrent = index === currentPatternIndex;
+                        const isQueued = index === queuedPatternIndex;
+                        const hasContent = isCurrent || !isPatternEmpty(patterns[index]);
+                        return (
+                            <button key={index} onClick={() => onPatternSelect(index)} title={patternName(index)}
+                                className={`h-6 text-[10px] font-mono font-bold rounded-sm border transition-all ${isCurrent ? 'bg-[var(--accent-color)] text-black border-[var(--accent-glow)]' : isQueued ? 'bg-gray-600 text-white border-[var(--accent-color)] animate-pulse' : hasContent ? 'bg-gray-700 text-gray-200 border-black/50 hover:bg-gray-600' : 'bg-[#1a1a1a] text-gray-600 border-black/50 hover:bg-gray-800'}`}>
+                                {slot + 1}
+                            </button>
+                        );
+                    })}
+                </div>
+                <span className="w-10 text-center text-xs font-mono font-bold text-[var(--text-screen)] bg-[#111] px-1 py-1 rounded-sm border border-black/50">{patternName(currentPatternIndex)}</span>
+                <button onClick={onCopy} className="px-2 py-1 text-xs font-bold rounded-sm bg-gray-700 hover:bg-gray-600 border border-black/50">COPY</button>
+                <button onClick={onPaste} disabled={!canPaste} className="px-2 py-1 text-xs font-bold rounded-sm bg-gray-700 hover:bg-gray-600 border border-black/50 disabled:opacity-40">PASTE</button>
+                <button onClick={onClear} className="px-2 py-1 text-xs font-bold rounded-sm bg-gray-700 hover:bg-gray-600 border border-black/50">CLEAR</button>
+                <div className="flex items-center bg-[#111] rounded-sm border border-black/50 text-[10px] font-mono" title="Pattern transpose in scale degrees">
+                    <span className="px-1 text-gray-500">TRN</span>
+                    <button onClick={() => onTransposeChange(Math.max(-24, transpose - 1))} className="px-1 text-gray-500 hover:text-white">-</button>
+                    <span className="w-6 text-center font-bold text-[var(--text-screen)]">{transpose > 0 ? `+${transpose}` : transpose}</span>
+                    <button onClick={() => onTransposeChange(Math.min(24, transpose + 1))} className="px-1 text-gray-500 hover:text-white">+</button>
+                </div>
+            </div>
+
+            <div className="flex items-center space-x-2">
+                <button onClick={onSongModeToggle} className={`px-2 py-1 text-xs font-bold rounded-sm border ${songMode ? 'bg-red-600 border-red-400 text-white' : 'bg-gray-700 border-black/50 hover:bg-gray-600'}`}>SONG</button>
+                <div className="flex-grow flex items-center space-x-1 overflow-x-auto no-scrollbar">
+                    {chain.length === 0 && <span className="text-[10px] text-gray-500 font-mono">EMPTY CHAIN</span>}
+                    {chain.map((entry, i) => (
+                        <div key={i} className="flex items-center flex-shrink-0 bg-[#111] rounded-sm border border-black/50 text-[10px] font-mono">
+                            <span className="px-1 font-bold text-[var(--text-screen)]">{patternName(entry.patternIndex)}</span>
+                            <button onClick={() => handleRepeatsChange(i, -1)} className="px-1 text-gray-500 hover:text-white">-</button>
+                            <span className="text-gray-300">x{entry.repeats}</span>
+                            <button onClick={() => handleRepeatsChange(i, 1)} className="px-1 text-gray-500 hover:text-white">+</button>
+                            <button onClick={() => handleRemoveFromChain(i)} className="px-1 text-gray-500 hover:text-red-400" title="Remove from chain">&times;</button>
+                        </div>
+                    ))}
+                </div>
+                <button onClick={handleAddToChain} className="px-2 py-1 text-xs font-bold rounded-sm bg-gray-700 hover:bg-gray-600 border border-black/50">+ CHAIN</button>
+            </div>
+        </div>
+    );
+};
+
+export default React.memo(PatternBank);
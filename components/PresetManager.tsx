@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { Track, SoundPreset } from '../types';
+import { getPresetTags, searchPresets, parseTags } from '../presetLibrary';
+
+interface PresetManagerProps {
+    track: Track;
+    presets: SoundPreset[];
+    onLoad: (preset: SoundPreset) => void;
+    onSave: (name: string, tags: string[]) => void;
+    onDelete: (presetId: string) => void;
+}
+
+const inputClass = 'bg-[#111] text-[var(--text-screen)] text-[11px] font-mono px-2 py-1 rounded-sm border border-black/50 focus:outline-none focus:border-[var(--accent-color)]';
+
+// Browses the factory and user presets of the track's engine and saves its current sound
+const PresetManager: React.FC<PresetManagerProps> = ({ track, presets, onLoad, onSave, onDelete }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [query, setQuery] = useState('');
+    const [tag, setTag] = useState<string | null>(null);
+    const [saveName, setSaveName] = useState('');
+    const [saveTags, setSaveTags] = useState('');
+
+    const enginePresets = presets.filter(p => p.type === track.type);
+    const tags = getPresetTags(enginePresets);
+    const results = searchPresets(presets, track.type, query, tag);
+
+    const handleSave = () => {
+        onSave(saveName, parseTags(saveTags));
+        setSaveName('');
+        setSaveTags('');
+    };
+
+    return (
+        <div className="px-2 pb-2">
+            <button onClick={() => setIsOpen(v => !v)} title={`Presets for the ${track.type} engine`}
+                className={`px-2 py-1 text-xs font-bold rounded-sm border ${isOpen ? 'bg-[var(--accent-color)] text-black border-[var(--accent-color)]' : 'bg-gray-700 hover:bg-gray-600 border-black/50'}`}>
+                PRESETS <span className="opacity-60">{track.type.toUpperCase()}</span>
+            </button>
+            {isOpen && (
+                <div className="mt-2 space-y-2 bg-black/30 p-2 rounded border border-black">
+                    <input value={query} onChange={e => setQuery(e.target.value)} placeholder="SEARCH NAME OR TAG" className={`${inputClass} w-full`} />
+                    <div className="flex flex-wrap gap-1">
+                        {tags.map(t => (
+                            <button key={t} onClick={() => setTag(tag === t ? null : t)}
+                                className={`px-1.5 py-0.5 text-[10px] font-bold rounded-sm border uppercase ${tag === t ? 'bg-[var(--accent-color)] text-black border-[var(--accent-color)]' : 'bg-gray-700 hover:bg-gray-600 border-black/50'}`}>
+                                {t}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="max-h-40 overflow-y-auto no-scrollbar space-y-px">
+                        {results.length === 0 && <div className="text-[10px] text-gray-500 text-center py-2">NO PRESETS</div>}
+                        {results.map(preset => (
+                            <div key={preset.id} className="flex items-center space-x-1 bg-[#111] rounded-sm border border-black/50">
+                                <button onClick={() => onLoad(preset)} title="Load onto the track" className="flex-grow flex items-baseline space-x-2 px-2 py-1 text-left hover:bg-black min-w-0">
+                                    <span className="text-[11px] font-bold truncate">{preset.name}</span>
+                                    <span className="text-[9px] text-gray-500 truncate">{preset.tags.join(' ')}</span>
+                                </button>
+                                {preset.isFactory
+                                    ? <span className="text-[9px] text-gray-600 px-1">FACTORY</span>
+                                    : <button onClick={() => onDelete(preset.id)} title="Delete preset" className="text-[10px] text-gray-500 hover:text-red-400 px-1">DEL</button>}
+                            </div>
+                        ))}
+                    </div>
+                    <div className="flex items-center space-x-1">
+                        <input value={saveName} onChange={e => setSaveName(e.target.value)} placeholder="NAME" className={`${inputClass} w-1/3`} />
+                        <input value={saveTags} onChange={e => setSaveTags(e.target.value)} placeholder="TAGS" className={`${inputClass} flex-grow min-w-0`} />
+                        <button onClick={handleSave} title="Save the track's sound as a user preset"
+                            className="px-2 py-1 text-xs font-bold rounded-sm bg-gray-700 hover:bg-gray-600 border border-black/50">SAVE</button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default React.memo(PresetManager);
@@ -0,0 +1,49 @@
+import React from 'react';
+import { RandomizerSettings, RandomRule } from '../types';
+import { RANDOM_RULES } from '../constants';
+import { midiToNoteName } from '../utils';
+import Knob from './Knob';
+
+interface RandomizerPanelProps {
+    settings: RandomizerSettings;
+    trackName: string;
+    rules: RandomRule[];
+    onChange: (settings: RandomizerSettings) => void;
+    onRulesChange: (rules: RandomRule[]) => void;
+}
+
+// Settings shared by RANDOM, RANDOM ALL and MUTATE, plus the rules of the selected track
+const RandomizerPanel: React.FC<RandomizerPanelProps> = ({ settings, trackName, rules, onChange, onRulesChange }) => {
+    const update = (changes: Partial<RandomizerSettings>) => onChange({ ...settings, ...changes });
+    const toggleRule = (rule: RandomRule) => onRulesChange(rules.includes(rule) ? rules.filter(r => r !== rule) : [...rules, rule]);
+
+    return (
+        <div className="flex items-center bg-black/30 p-2 rounded border border-black flex-shrink-0 space-x-2 overflow-x-auto no-scrollbar">
+            <span className="text-[10px] text-gray-500 font-mono">RANDOM</span>
+            <Knob label="SEED" value={settings.seed} min={0} max={9999} step={1} onChange={v => update({ seed: v })} size={32} />
+            <Knob label="DENSITY" value={Math.round(settings.density * 100)} min={0} max={100} step={1} onChange={v => update({ density: v / 100 })} size={32} unit="%" />
+            <Knob label="VEL LO" value={Math.round(settings.velocityMin * 100)} min={0} max={100} step={1}
+                onChange={v => update({ velocityMin: v / 100, velocityMax: Math.max(settings.velocityMax, v / 100) })} size={32} unit="%" />
+            <Knob label="VEL HI" value={Math.round(settings.velocityMax * 100)} min={0} max={100} step={1}
+                onChange={v => update({ velocityMax: v / 100, velocityMin: Math.min(settings.velocityMin, v / 100) })} size={32} unit="%" />
+            <Knob label="NOTE LO" value={settings.noteMin} min={0} max={127} step={1} displayTransform={midiToNoteName}
+                onChange={v => update({ noteMin: v, noteMax: Math.max(settings.noteMax, v) })} size={32} />
+            <Knob label="NOTE HI" value={settings.noteMax} min={0} max={127} step={1} displayTransform={midiToNoteName}
+                onChange={v => update({ noteMax: v, noteMin: Math.min(settings.noteMin, v) })} size={32} />
+            <Knob label="MUTATE" value={Math.round(settings.mutateAmount * 100)} min={0} max={100} step={1} onChange={v => update({ mutateAmount: v / 100 })} size={32} unit="%" />
+            <div className="flex flex-col items-start space-y-1">
+                <span className="text-[var(--text-muted)] text-[10px] uppercase tracking-wider font-display">{trackName} RULES</span>
+                <div className="flex space-x-0.5">
+                    {RANDOM_RULES.map(({ rule, name, description }) => (
+                        <button key={rule} onClick={() => toggleRule(rule)} title={description}
+                            className={`px-1.5 py-1 text-[10px] font-bold rounded-sm border whitespace-nowrap ${rules.includes(rule) ? 'bg-[var(--accent-color)] text-black border-[var(--accent-color)]' : 'bg-gray-700 hover:bg-gray-600 border-black/50'}`}>
+                            {name}
+                        </button>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default React.memo(RandomizerPanel);
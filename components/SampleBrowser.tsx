@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { SampleInfo } from '../types';
+import { SAMPLE_FILE_ACCEPT } from '../sampleStore';
+
+interface SampleBrowserProps {
+    samples: SampleInfo[];
+    trackName: string;
+    assignedSampleId: string | null;
+    onImport: (files: File[]) => void;
+    onAudition: (sample: SampleInfo) => void;
+    onAssign: (sample: SampleInfo) => void;
+    onDelete: (sampleId: string) => void;
+}
+
+const buttonClass = 'px-2 py-1 text-xs font-bold rounded-sm bg-gray-700 hover:bg-gray-600 border border-black/50';
+
+// The file's loop shows as a shaded band and its cue markers as ticks
+const WaveformThumbnail: React.FC<{ sample: SampleInfo }> = ({ sample: { peaks, duration, loop, cues } }) => {
+    const toX = (seconds: number) => duration > 0 ? seconds / duration * peaks.length : 0;
+    return (
+        <svg viewBox={`0 0 ${peaks.length} 2`} preserveAspectRatio="none" className="w-16 h-6 flex-shrink-0 text-[var(--accent-color)]">
+            {loop && <rect x={toX(loop.start)} y={0} width={toX(loop.end) - toX(loop.start)} height={2} fill="white" fillOpacity={0.15} />}
+            {peaks.map((peak, i) => <rect key={i} x={i} y={1 - peak} width={0.8} height={Math.max(0.02, peak * 2)} fill="currentColor" />)}
+            {cues.map((cue, i) => <rect key={`cue-${i}`} x={toX(cue)} y={0} width={0.5} height={2} fill="white" fillOpacity={0.6} />)}
+        </svg>
+    );
+};
+
+// The local sample library: drop or pick files to import them, click a sample to hear it
+const SampleBrowser: React.FC<SampleBrowserProps> = ({ samples, trackName, assignedSampleId, onImport, onAudition, onAssign, onDelete }) => {
+    const [query, setQuery] = useState('');
+    const [isDragOver, setIsDragOver] = useState(false);
+
+    const text = query.trim().toLowerCase();
+    const results = text === '' ? samples : samples.filter(s => s.name.toLowerCase().includes(text));
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files ?? []);
+        e.target.value = '';
+        if (files.length > 0) onImport(files);
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDragOver(false);
+        const files = Array.from(e.dataTransfer.files);
+        if (files.length > 0) onImport(files);
+    };
+
+    return (
+        <div onDragOver={e => { e.preventDefault(); setIsDragOver(true); }} onDragLeave={() => setIsDragOver(false)} onDrop={handleDrop}
+            className={`font-mono text-[var(--text-screen)] h-full flex flex-col space-y-2 p-2 rounded border ${isDragOver ? 'border-[var(--accent-color)] bg-black/30' : 'border-transparent'}`}>
+            <div className="flex items-center space-x-1">
+                <input value={query} onChange={e => setQuery(e.target.value)} placeholder="SEARCH"
+                    className="flex-grow min-w-0 bg-[#111] text-[11px] px-2 py-1 rounded-sm border border-black/50 focus:outline-none focus:border-[var(--accent-color)]" />
+                <label title="Import audio files, or drop them here" className={`${buttonClass} cursor-pointer`}>
+                    IMPORT
+                    <input type="file" multiple accept={SAMPLE_FILE_ACCEPT} onChange={handleFileChange} className="hidden" />
+                </label>
+            </div>
+            <div className="flex-grow overflow-y-auto no-scrollbar space-y-px">
+                {results.length === 0 && <div className="text-[10px] text-gray-500 text-center py-4">{samples.length === 0 ? 'DROP WAV, AIFF OR FLAC FILES HERE' : 'NO SAMPLES'}</div>}
+                {results.map(sample => (
+                    <div key={sample.id} className={`flex items-center space-x-1 bg-[#111] rounded-sm border pr-1 ${sample.id === assignedSampleId ? 'border-[var(--accent-color)]' : 'border-black/50'}`}>
+                        <button onClick={() => onAudition(sample)} title="Listen" className="flex-grow flex items-center space-x-2 px-2 py-1 text-left hover:bg-black min-w-0">
+                            <WaveformThumbnail sample={sample} />
+                            <span className="text-[11px] font-bold truncate">{sample.name}</span>
+                            <span className="text-[9px] text-gray-500 flex-shrink-0">{sample.duration.toFixed(2)}s</span>
+                        </button>
+                        <button onClick={() => onAssign(sample)} title={`Play it on ${trackName}`} className="text-[10px] text-gray-500 hover:text-white px-1">ASSIGN</button>
+                        <button onClick={() => onDelete(sample.id)} title="Remove from the library" className="text-[10px] text-gray-500 hover:text-red-400 px-1">DEL</button>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default React.memo(SampleBrowser);
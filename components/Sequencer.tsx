@@ -1,21 +1,33 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Track, StepState } from '../types';
+import { Track, StepState, StepChord, ProjectScale, EuclidSettings, RandomizerSettings, RandomRule } from '../types';
 import Knob from './Knob';
-import { noteNameToMidi, midiToNoteName } from '../utils';
+import EuclidPanel from './EuclidPanel';
+import RandomizerPanel from './RandomizerPanel';
+import StepToolsPanel from './StepToolsPanel';
+import { applyEuclidean } from '../euclid';
+import { StepRange, StepsEdit, shiftSteps, reverseSteps, invertSteps, pasteSteps, doubleSteps } from '../stepTools';
+import { noteNameToMidi, midiToNoteName, getChordName, getScaleNotes, snapToScale } from '../utils';
+import { MAX_PATTERN_LENGTH, GROOVE_TEMPLATES, TRIG_CONDITIONS, CHORD_TYPES, MAX_POLY_VOICES, MELODIC_TRACK_TYPES, DEFAULT_EUCLID_SETTINGS } from '../constants';
+
+const STEPS_PER_PAGE = 16;
+const PAGE_COUNT = MAX_PATTERN_LENGTH / STEPS_PER_PAGE;
 
 interface StepButtonProps {
     step: StepState;
     stepIndex: number;
     isCurrent: boolean;
     isSelectedTrack: boolean;
+    isPreview: boolean;
+    isInSelection: boolean;
     patternLength: number;
-    onClick: () => void;
+    onClick: (event: React.MouseEvent) => void;
 }
 
-const StepButton: React.FC<StepButtonProps> = React.memo(({ step, stepIndex, isCurrent, isSelectedTrack, patternLength, onClick }) => {
+const StepButton: React.FC<StepButtonProps> = React.memo(({ step, stepIndex, isCurrent, isSelectedTrack, isPreview, isInSelection, patternLength, onClick }) => {
     const isActive = step?.active ?? false;
-    const hasLocks = (!!step?.pLocks && Object.keys(step.pLocks).length > 0) || step?.note !== null || step?.velocity < 1;
+    const hasLocks = (!!step?.pLocks && Object.keys(step.pLocks).length > 0) || step?.note !== null || step?.velocity < 1 || !!step?.microTiming || !!step?.slide || !!step?.accent || !!step?.chord || !!step?.paramSlide;
     const isOutOfBounds = stepIndex >= patternLength;
+    const isConditional = !!step && (step.condition !== null || step.probability < 100);
 
     const quarter = Math.floor(stepIndex % 16 / 4);
     let bgClass = 'bg-[#222]';
@@ -32,24 +44,39 @@ const StepButton: React.FC<StepButtonProps> = React.memo(({ step, stepIndex, isC
     return (
         <button
             onClick={onClick}
-            className={`relative w-full aspect-square rounded transition-all duration-50 border border-black/50 ${isOutOfBounds ? 'opacity-30' : ''}`}
+            className={`relative w-full aspect-square rounded transition-all duration-50 border ${isPreview && !isOutOfBounds ? 'border-dashed border-white/60' : 'border-black/50'} ${isOutOfBounds ? 'opacity-30' : ''}`}
             aria-label={`Step ${stepIndex + 1}`}
             disabled={isOutOfBounds}
         >
             <div className={`absolute inset-0.5 rounded-sm ${bgClass}`} style={{ boxShadow: isActive ? `0 0 8px #e74c3c66` : 'inset 0 1px 2px rgba(0,0,0,0.5)' }}></div>
              {hasLocks && !isOutOfBounds && (
                 <div className="absolute w-1 h-1 rounded-full bg-white/70" style={{ top: '3px', right: '3px' }} title="Parameter locked" />
+            )}
+             {isConditional && !isOutOfBounds && (
+                <div className="absolute w-1 h-1 rounded-full bg-yellow-400" style={{ bottom: '3px', left: '3px' }} title="Conditional trig" />
+            )}
+             {step?.retrigCount > 1 && !isOutOfBounds && (
+                <div className="absolute left-0 right-0 flex justify-center space-x-px pointer-events-none" style={{ bottom: '3px' }} title={`Ratchet x${step.retrigCount}`}>
+                    {Array.from({ length: step.retrigCount }).map((_, i) => <div key={i} className="w-px h-1.5 bg-white/70" />)}
+                </div>
             )}
              {isCurrent && isActive && (
                 <div className="absolute inset-0.5 rounded-sm bg-white animate-pulse" style={{ animationDuration: '200ms' }}></div>
             )}
+             {isCurrent && !isActive && (
+                <div className="absolute inset-0.5 rounded-sm bg-white/15 pointer-events-none"></div>
+            )}
+             {isInSelection && !isOutOfBounds && (
+                <div className="absolute inset-0 rounded ring-2 ring-inset ring-white/70 pointer-events-none"></div>
+            )}
         </button>
     );
 });
 
 interface SequencerProps {
     tracks: Track[];
-    currentStep: number;
+    currentSteps: number[];
+    scale: ProjectScale;
     selectedTrackId: number;
     mutedTracks: Set<number>;
     soloedTrackId: number | null;
@@ -58,21 +85,48 @@ interface SequencerProps {
     onStepClick: (trackId: number, stepIndex: number) => void;
     onTrackSelect: (trackId: number) => void;
     onPatternLengthChange: (trackId: number, length: number) => void;
+    onGrooveChange: (trackId: number, grooveId: string | undefined) => void;
+    onChordMemoryChange: (trackId: number, chord: StepChord | undefined) => void;
+    onVoiceLimitChange: (trackId: number, voiceLimit: number) => void;
+    onSnapToScaleChange: (trackId: number, snapToScale: boolean) => void;
     onStepPropertyChange: (trackId: number, stepIndex: number, prop: keyof StepState, value: any) => void;
     onPLockToggle: () => void;
     onRandomPattern: (trackId: number) => void;
+    onEuclidApply: (trackId: number, settings: EuclidSettings) => void;
+    onMutatePattern: (trackId: number) => void;
+    randomizer: RandomizerSettings;
+    onRandomizerChange: (settings: RandomizerSettings) => void;
+    onRandomRulesChange: (trackId: number, rules: RandomRule[]) => void;
     onRandomAll: () => void;
     onClearPLocks: (trackId: number) => void;
+    onStepsEdit: (edits: StepsEdit[]) => void;
+}
+
+// Shift+click sets the anchor, further shift+clicks move the other corner; it can span several tracks
+interface StepSelection {
+    anchorTrack: number;
+    anchorStep: number;
+    endTrack: number;
+    endStep: number;
 }
 
 const Sequencer: React.FC<SequencerProps> = React.memo(({ 
-    tracks, currentStep, selectedTrackId, mutedTracks, soloedTrackId, pLockModeActive, pLockEditStep,
-    onStepClick, onTrackSelect, onPatternLengthChange,
-    onStepPropertyChange, onPLockToggle, onRandomPattern, onRandomAll, onClearPLocks
+    tracks, currentSteps, scale, selectedTrackId, mutedTracks, soloedTrackId, pLockModeActive, pLockEditStep,
+    onStepClick, onTrackSelect, onPatternLengthChange, onGrooveChange, onChordMemoryChange, onVoiceLimitChange, onSnapToScaleChange,
+    onStepPropertyChange, onPLockToggle, onRandomPattern, onEuclidApply, onMutatePattern, randomizer, onRandomizerChange, onRandomRulesChange, onRandomAll, onClearPLocks, onStepsEdit
 }) => {
   const selectedTrack = tracks.find(t => t.id === selectedTrackId);
   const pLockStepState = pLockEditStep ? tracks[pLockEditStep.trackId].steps[pLockEditStep.stepIndex] : null;
   const gridRef = useRef<HTMLDivElement>(null);
+  const [page, setPage] = useState(0);
+  // Open Euclidean generator settings; the selected track shows their result until applied
+  const [euclid, setEuclid] = useState<EuclidSettings | null>(null);
+  const [showRandomizer, setShowRandomizer] = useState(false);
+  const [showStepTools, setShowStepTools] = useState(false);
+  const [selection, setSelection] = useState<StepSelection | null>(null);
+  // Copied rows of steps, one per track; kept across pattern changes so steps can move between patterns
+  const [clipboard, setClipboard] = useState<StepState[][] | null>(null);
+  const [pasteLocks, setPasteLocks] = useState(true);
 
   if (!selectedTrack) return null;
 
@@ -82,7 +136,84 @@ const Sequencer: React.FC<SequencerProps> = React.memo(({
       }
   };
 
-  const playheadStep = currentStep;
+  // Cycles through OFF and the built-in templates
+  const handleGrooveCycle = () => {
+      const index = GROOVE_TEMPLATES.findIndex(g => g.id === selectedTrack.grooveId);
+      const next = index + 1 < GROOVE_TEMPLATES.length ? GROOVE_TEMPLATES[index + 1].id : undefined;
+      onGrooveChange(selectedTrackId, next);
+  };
+
+  // MEM stores the edited step's chord for every chordless step of the track, or clears the memory
+  const handleChordMemoryToggle = () => {
+      if (selectedTrack.chordMemory) onChordMemoryChange(selectedTrackId, undefined);
+      else if (pLockStepState?.chord && pLockEditStep?.trackId === selectedTrackId) onChordMemoryChange(selectedTrackId, pLockStepState.chord);
+  };
+
+  const handleChordChange = (changes: Partial<StepChord> | null) => {
+      if (!pLockEditStep || !pLockStepState) return;
+      const chord = changes === null ? null : { type: pLockStepState.chord?.type ?? 'maj', inversion: 0, ...pLockStepState.chord, ...changes };
+      onStepPropertyChange(pLockEditStep.trackId, pLockEditStep.stepIndex, 'chord', chord);
+  };
+
+  // With snap on, the pitch knob only steps through notes of the scale
+  const scaleNotes = selectedTrack.snapToScale ? getScaleNotes(scale, 0, 127) : null;
+  const pitchToKnob = (midi: number) => scaleNotes ? Math.max(0, scaleNotes.indexOf(snapToScale(midi, scale))) : midi;
+  const knobToPitch = (value: number) => scaleNotes ? scaleNotes[value] ?? 0 : value;
+
+  const euclidPreview = euclid ? applyEuclidean(selectedTrack.steps, selectedTrack.patternLength, euclid) : null;
+
+  const handleEuclidToggle = () => {
+      setEuclid(euclid ? null : { ...DEFAULT_EUCLID_SETTINGS, steps: selectedTrack.patternLength, seed: Math.floor(Math.random() * 10000) });
+  };
+
+  const handleEuclidApply = () => {
+      if (!euclid) return;
+      onEuclidApply(selectedTrackId, euclid);
+      setEuclid(null);
+  };
+
+  const selectionTracks = selection ? [Math.min(selection.anchorTrack, selection.endTrack), Math.max(selection.anchorTrack, selection.endTrack)] : null;
+  const selectionRange: StepRange | null = selection
+      ? { start: Math.min(selection.anchorStep, selection.endStep), end: Math.max(selection.anchorStep, selection.endStep) }
+      : null;
+  const isInSelection = (trackId: number, stepIndex: number) => !!selectionTracks && !!selectionRange
+      && trackId >= selectionTracks[0] && trackId <= selectionTracks[1] && stepIndex >= selectionRange.start && stepIndex <= selectionRange.end;
+
+  // The tools work on the selection, or on the selected track's whole pattern
+  const toolTargets: { track: Track; range: StepRange }[] = selectionTracks && selectionRange
+      ? tracks.filter(t => t.id >= selectionTracks[0] && t.id <= selectionTracks[1]).map(track => ({ track, range: selectionRange }))
+      : [{ track: selectedTrack, range: { start: 0, end: selectedTrack.patternLength - 1 } }];
+  const toolTargetLabel = selectionTracks && selectionRange
+      ? `${tracks[selectionTracks[0]].name}${selectionTracks[1] > selectionTracks[0] ? `-${tracks[selectionTracks[1]].name}` : ''} ${selectionRange.start + 1}-${selectionRange.end + 1}`
+      : `${selectedTrack.name} 1-${selectedTrack.patternLength}`;
+
+  const handleStepClick = (event: React.MouseEvent, trackId: number, stepIndex: number) => {
+      if (!showStepTools || !event.shiftKey) return onStepClick(trackId, stepIndex);
+      setSelection(current => current
+          ? { ...current, endTrack: trackId, endStep: stepIndex }
+          : { anchorTrack: trackId, anchorStep: stepIndex, endTrack: trackId, endStep: stepIndex });
+  };
+
+  const applyStepTool = (tool: (steps: StepState[], range: StepRange) => StepState[]) => {
+      onStepsEdit(toolTargets.map(({ track, range }) => ({ trackId: track.id, steps: tool(track.steps, range), patternLength: track.patternLength })));
+  };
+
+  const handleCopy = () => setClipboard(toolTargets.map(({ track, range }) => track.steps.slice(range.start, range.end + 1)));
+
+  // Rows paste into consecutive tracks from the top-left corner of the selection
+  const handlePaste = () => {
+      if (!clipboard) return;
+      const firstTrack = selectionTracks ? selectionTracks[0] : selectedTrackId;
+      const at = selectionRange ? selectionRange.start : 0;
+      onStepsEdit(clipboard.flatMap((row, i) => {
+          const track = tracks[firstTrack + i];
+          return track ? [{ trackId: track.id, steps: pasteSteps(track.steps, row, at, pasteLocks), patternLength: track.patternLength }] : [];
+      }));
+  };
+
+  const handleDouble = () => onStepsEdit(toolTargets.map(({ track }) => ({ trackId: track.id, ...doubleSteps(track.steps, track.patternLength) })));
+
+  const selectedPlayheadPage = currentSteps[selectedTrackId] !== undefined ? Math.floor(currentSteps[selectedTrackId] / STEPS_PER_PAGE) : -1;
   
   return (
     <div className="bg-black/20 p-3 rounded-md border border-black flex flex-col h-full space-y-2">
@@ -91,9 +222,42 @@ const Sequencer: React.FC<SequencerProps> = React.memo(({
             <div className='flex items-center space-x-2'>
                 <button onClick={() => onRandomPattern(selectedTrackId)} className="px-2 py-1 text-xs font-bold rounded-sm bg-gray-700 hover:bg-gray-600 border border-black/50">RANDOM</button>
                 <button onClick={onRandomAll} className="px-2 py-1 text-xs font-bold rounded-sm bg-gray-700 hover:bg-gray-600 border border-black/50">RANDOM ALL</button>
+                <button onClick={() => onMutatePattern(selectedTrackId)} title={`Re-roll ${Math.round(randomizer.mutateAmount * 100)}% of the steps`} className="px-2 py-1 text-xs font-bold rounded-sm bg-gray-700 hover:bg-gray-600 border border-black/50">MUTATE</button>
+                <button onClick={() => setShowRandomizer(v => !v)} title="Randomizer settings and track rules" className={`px-2 py-1 text-xs font-bold rounded-sm border ${showRandomizer ? 'bg-[var(--accent-color)] text-black border-[var(--accent-color)]' : 'bg-gray-700 hover:bg-gray-600 border-black/50'}`}>RULES</button>
+                <button onClick={handleEuclidToggle} className={`px-2 py-1 text-xs font-bold rounded-sm border ${euclid ? 'bg-[var(--accent-color)] text-black border-[var(--accent-color)]' : 'bg-gray-700 hover:bg-gray-600 border-black/50'}`}>EUCLID</button>
+                <button onClick={() => { setShowStepTools(v => !v); setSelection(null); }} title="Copy, paste, move and transform steps; shift+click steps to select a range"
+                    className={`px-2 py-1 text-xs font-bold rounded-sm border ${showStepTools ? 'bg-[var(--accent-color)] text-black border-[var(--accent-color)]' : 'bg-gray-700 hover:bg-gray-600 border-black/50'}`}>EDIT</button>
+            </div>
+            <div className='flex items-center space-x-1'>
+                <span className="text-[10px] text-gray-500 font-mono mr-1">PAGE</span>
+                {Array.from({ length: PAGE_COUNT }).map((_, i) => {
+                    const isInLength = i * STEPS_PER_PAGE < selectedTrack.patternLength;
+                    return (
+                        <button key={i} onClick={() => setPage(i)}
+                            className={`relative w-7 py-1 text-xs font-bold rounded-sm border border-black/50 ${page === i ? 'bg-[var(--accent-color)] text-black' : 'bg-gray-700 hover:bg-gray-600'} ${isInLength ? '' : 'opacity-40'}`}>
+                            {i + 1}
+                            {selectedPlayheadPage === i && <span className="absolute top-0.5 right-0.5 w-1 h-1 rounded-full bg-white" />}
+                        </button>
+                    );
+                })}
             </div>
         </div>
         
+        {showRandomizer && (
+            <RandomizerPanel settings={randomizer} trackName={selectedTrack.name} rules={selectedTrack.randomRules ?? []}
+                onChange={onRandomizerChange} onRulesChange={rules => onRandomRulesChange(selectedTrackId, rules)} />
+        )}
+        {euclid && (
+            <EuclidPanel settings={euclid} maxSteps={selectedTrack.patternLength} onChange={setEuclid} onApply={handleEuclidApply} onCancel={() => setEuclid(null)} />
+        )}
+        {showStepTools && (
+            <StepToolsPanel targetLabel={toolTargetLabel} hasSelection={selection !== null} hasClipboard={clipboard !== null} pasteLocks={pasteLocks}
+                onCopy={handleCopy} onPaste={handlePaste} onPasteLocksToggle={() => setPasteLocks(v => !v)}
+                onShift={(amount, wrap) => applyStepTool((steps, range) => shiftSteps(steps, range, amount, wrap))}
+                onReverse={() => applyStepTool(reverseSteps)} onInvert={() => applyStepTool(invertSteps)} onDouble={handleDouble}
+                onClearSelection={() => setSelection(null)} />
+        )}
+
         {/* Main Grid Area */}
         <div className="flex-grow flex space-x-2">
             {/* Track Info/Selectors */}
@@ -120,30 +284,24 @@ const Sequencer: React.FC<SequencerProps> = React.memo(({
 
             {/* Step Grid */}
             <div className="relative flex-grow" ref={gridRef}>
-                 {currentStep !== -1 && (
-                     <div className="absolute top-0 bottom-0 bg-white/10 rounded pointer-events-none"
-                         style={{
-                             width: `calc(100% / 16)`,
-                             left: `${playheadStep * 100 / 16}%`,
-                             transition: 'left 50ms linear',
-                         }}
-                     />
-                 )}
                 <div className="grid grid-cols-16 grid-rows-8 gap-1 h-full">
                     {tracks.map(track => (
                         <React.Fragment key={track.id}>
-                            {Array.from({ length: 16 }).map((_, i) => {
-                                const stepIndex = i;
-                                const step = track.steps[stepIndex];
+                            {Array.from({ length: STEPS_PER_PAGE }).map((_, i) => {
+                                const stepIndex = page * STEPS_PER_PAGE + i;
+                                const isPreview = euclidPreview !== null && track.id === selectedTrackId;
+                                const step = isPreview ? euclidPreview[stepIndex] : track.steps[stepIndex];
                                 return (
                                     <StepButton
                                         key={`${track.id}-${stepIndex}`}
                                         step={step}
                                         stepIndex={stepIndex}
-                                        isCurrent={currentStep === stepIndex}
+                                        isCurrent={currentSteps[track.id] === stepIndex}
                                         isSelectedTrack={track.id === selectedTrackId}
+                                        isPreview={isPreview}
+                                        isInSelection={isInSelection(track.id, stepIndex)}
                                         patternLength={track.patternLength}
-                                        onClick={() => onStepClick(track.id, stepIndex)}
+                                        onClick={(event) => handleStepClick(event, track.id, stepIndex)}
                                     />
                                 );
                             })}
@@ -155,11 +313,33 @@ const Sequencer: React.FC<SequencerProps> = React.memo(({
 
         {/* P-Lock Bar */}
         <div className="flex justify-between items-stretch bg-black/30 p-2 rounded border border-black flex-shrink-0 space-x-2 h-24">
-            <div className="flex items-center space-x-2 flex-grow">
+            <div className="flex items-center space-x-2 flex-grow overflow-x-auto no-scrollbar">
                  <Knob 
-                    label="LENGTH" value={selectedTrack?.patternLength || 16} min={1} max={16} step={1}
+                    label="LENGTH" value={selectedTrack?.patternLength || 16} min={1} max={MAX_PATTERN_LENGTH} step={1}
                     onChange={(v) => onPatternLengthChange(selectedTrackId, v)} size={40} className="w-20"
                  />
+                 <div className="flex flex-col items-center space-y-1.5 w-20 self-end mb-1">
+                    <span className="text-[var(--text-muted)] text-[10px] uppercase tracking-wider font-display">GROOVE</span>
+                    <button onClick={handleGrooveCycle} className="w-full h-6 text-[10px] font-mono font-bold rounded-sm bg-[#111] text-[var(--text-screen)] border border-black/50 hover:bg-black truncate">
+                        {GROOVE_TEMPLATES.find(g => g.id === selectedTrack.grooveId)?.name ?? 'OFF'}
+                    </button>
+                 </div>
+                 {MELODIC_TRACK_TYPES.includes(selectedTrack.type) && (
+                    <button onClick={() => onSnapToScaleChange(selectedTrackId, !selectedTrack.snapToScale)} title="Snap notes to the project scale"
+                        className={`self-end mb-1 h-10 px-2 text-[10px] font-bold rounded-sm border ${selectedTrack.snapToScale ? 'bg-[var(--accent-color)] text-black border-[var(--accent-color)]' : 'bg-gray-700 hover:bg-gray-600 border-black/50'}`}>
+                        SNAP
+                    </button>
+                 )}
+                 {selectedTrack.type === 'poly' && (
+                    <>
+                        <Knob label="VOICES" value={selectedTrack.voiceLimit ?? MAX_POLY_VOICES} min={1} max={MAX_POLY_VOICES} step={1}
+                            onChange={(v) => onVoiceLimitChange(selectedTrackId, v)} size={40} className="w-16" />
+                        <button onClick={handleChordMemoryToggle} title="Chord memory: play a chord on every step without its own"
+                            className={`self-end mb-1 h-10 px-2 text-[10px] font-bold rounded-sm border ${selectedTrack.chordMemory ? 'bg-[var(--accent-color)] text-black border-[var(--accent-color)]' : 'bg-gray-700 hover:bg-gray-600 border-black/50'}`}>
+                            MEM {selectedTrack.chordMemory ? getChordName(selectedTrack.chordMemory) : ''}
+                        </button>
+                    </>
+                 )}
                  <button onClick={() => onClearPLocks(selectedTrackId)} className="self-end mb-1 h-10 px-2 text-[10px] font-bold rounded-sm bg-gray-700 hover:bg-gray-600 border border-black/50">CLEAR P-LOCKS</button>
 
                  {pLockEditStep && pLockStepState && selectedTrack ? (
@@ -167,11 +347,11 @@ const Sequencer: React.FC<SequencerProps> = React.memo(({
                         <div className="relative w-20">
                             <Knob 
                                 label="PITCH"
-                                value={noteNameToMidi(pLockStepState.note ?? selectedTrack.defaultNote ?? 'C3')}
-                                min={0} max={127} step={1}
-                                onChange={(v) => onStepPropertyChange(pLockEditStep.trackId, pLockEditStep.stepIndex, 'note', midiToNoteName(v))}
+                                value={pitchToKnob(noteNameToMidi(pLockStepState.note ?? selectedTrack.defaultNote ?? 'C3'))}
+                                min={0} max={scaleNotes ? scaleNotes.length - 1 : 127} step={1}
+                                onChange={(v) => onStepPropertyChange(pLockEditStep.trackId, pLockEditStep.stepIndex, 'note', midiToNoteName(knobToPitch(v)))}
                                 size={40}
-                                displayTransform={(v) => midiToNoteName(v)}
+                                displayTransform={(v) => pLockStepState.chord ? `${midiToNoteName(knobToPitch(v))} ${getChordName(pLockStepState.chord)}` : midiToNoteName(knobToPitch(v))}
                                 isPLocked={pLockStepState.note !== null}
                             />
                             {pLockStepState.note !== null && (
@@ -188,8 +368,100 @@ const Sequencer: React.FC<SequencerProps> = React.memo(({
                             size={40} unit="%" className="w-16"
                             isPLocked={pLockStepState.velocity < 1}
                         />
+                        <Knob 
+                            label="NUDGE"
+                            value={Math.round(pLockStepState.microTiming * 100)}
+                            min={-50} max={50} step={1}
+                            onChange={(v) => onStepPropertyChange(pLockEditStep.trackId, pLockEditStep.stepIndex, 'microTiming', v / 100)}
+                            size={40} unit="%" className="w-16"
+                            isPLocked={pLockStepState.microTiming !== 0}
+                        />
+                        <Knob 
+                            label="COND"
+                            value={pLockStepState.condition === null ? -1 : TRIG_CONDITIONS.indexOf(pLockStepState.condition)}
+                            min={-1} max={TRIG_CONDITIONS.length - 1} step={1}
+                            onChange={(v) => onStepPropertyChange(pLockEditStep.trackId, pLockEditStep.stepIndex, 'condition', v < 0 ? null : TRIG_CONDITIONS[v])}
+                            size={40} className="w-16"
+                            displayTransform={(v) => v < 0 ? 'OFF' : TRIG_CONDITIONS[v]}
+                            isPLocked={pLockStepState.condition !== null}
+                        />
+                        <Knob 
+                            label="PROB"
+                            value={pLockStepState.probability}
+                            min={0} max={100} step={1}
+                            onChange={(v) => onStepPropertyChange(pLockEditStep.trackId, pLockEditStep.stepIndex, 'probability', v)}
+                            size={40} unit="%" className="w-16"
+                            isPLocked={pLockStepState.probability < 100}
+                        />
+                        <Knob 
+                            label="RTRG"
+                            value={pLockStepState.retrigCount}
+                            min={1} max={8} step={1}
+                            onChange={(v) => onStepPropertyChange(pLockEditStep.trackId, pLockEditStep.stepIndex, 'retrigCount', v)}
+                            size={40} className="w-16"
+                            displayTransform={(v) => v <= 1 ? 'OFF' : `x${v}`}
+                            isPLocked={pLockStepState.retrigCount > 1}
+                        />
+                        <Knob 
+                            label="RATE"
+                            value={pLockStepState.retrigRate}
+                            min={1} max={8} step={1}
+                            onChange={(v) => onStepPropertyChange(pLockEditStep.trackId, pLockEditStep.stepIndex, 'retrigRate', v)}
+                            size={40} className="w-16"
+                            displayTransform={(v) => `1/${v}`}
+                            disabled={pLockStepState.retrigCount <= 1}
+                        />
+                        <Knob 
+                            label="RAMP"
+                            value={Math.round(pLockStepState.retrigVelocityRamp * 100)}
+                            min={-100} max={100} step={1}
+                            onChange={(v) => onStepPropertyChange(pLockEditStep.trackId, pLockEditStep.stepIndex, 'retrigVelocityRamp', v / 100)}
+                            size={40} unit="%" className="w-16"
+                            disabled={pLockStepState.retrigCount <= 1}
+                        />
+                        <button onClick={() => onStepPropertyChange(pLockEditStep.trackId, pLockEditStep.stepIndex, 'paramSlide', !pLockStepState.paramSlide)}
+                            title="Glide this step's locked parameters in from the previous step"
+                            className={`self-center px-2 py-1 text-[10px] font-bold rounded-sm border ${pLockStepState.paramSlide ? 'bg-[var(--accent-color)] text-black border-[var(--accent-color)]' : 'bg-gray-700 hover:bg-gray-600 border-black/50'}`}>P.SLIDE</button>
+                        {tracks[pLockEditStep.trackId].type === 'poly' && (
+                            <>
+                                <Knob 
+                                    label="CHORD"
+                                    value={pLockStepState.chord ? CHORD_TYPES.findIndex(c => c.type === pLockStepState.chord.type) : -1}
+                                    min={-1} max={CHORD_TYPES.length - 1} step={1}
+                                    onChange={(v) => handleChordChange(v < 0 ? null : { type: CHORD_TYPES[v].type })}
+                                    size={40} className="w-16"
+                                    displayTransform={(v) => v < 0 ? 'OFF' : CHORD_TYPES[v].name}
+                                    isPLocked={pLockStepState.chord !== null}
+                                />
+                                <Knob 
+                                    label="INV"
+                                    value={pLockStepState.chord?.inversion ?? 0}
+                                    min={0} max={3} step={1}
+                                    onChange={(v) => handleChordChange({ inversion: v })}
+                                    size={40} className="w-16"
+                                    disabled={!pLockStepState.chord}
+                                />
+                            </>
+                        )}
+                        {tracks[pLockEditStep.trackId].type === 'bass' && (
+                            <>
+                                <Knob 
+                                    label="GATE"
+                                    value={Math.round(pLockStepState.gateLength * 100)}
+                                    min={5} max={100} step={1}
+                                    onChange={(v) => onStepPropertyChange(pLockEditStep.trackId, pLockEditStep.stepIndex, 'gateLength', v / 100)}
+                                    size={40} unit="%" className="w-16"
+                                />
+                                <div className="flex flex-col space-y-1 self-center">
+                                    <button onClick={() => onStepPropertyChange(pLockEditStep.trackId, pLockEditStep.stepIndex, 'slide', !pLockStepState.slide)}
+                                        className={`px-2 py-1 text-[10px] font-bold rounded-sm border ${pLockStepState.slide ? 'bg-[var(--accent-color)] text-black border-[var(--accent-color)]' : 'bg-gray-700 hover:bg-gray-600 border-black/50'}`}>SLIDE</button>
+                                    <button onClick={() => onStepPropertyChange(pLockEditStep.trackId, pLockEditStep.stepIndex, 'accent', !pLockStepState.accent)}
+                                        className={`px-2 py-1 text-[10px] font-bold rounded-sm border ${pLockStepState.accent ? 'bg-[var(--accent-color)] text-black border-[var(--accent-color)]' : 'bg-gray-700 hover:bg-gray-600 border-black/50'}`}>ACCENT</button>
+                                </div>
+                            </>
+                        )}
                     </>
-                 ) : <div className="flex-grow text-center text-xs text-gray-500 font-mono self-center">SELECT A STEP IN P-LOCK MODE TO EDIT NOTE/VEL</div>}
+                 ) : <div className="flex-grow text-center text-xs text-gray-500 font-mono self-center">SELECT A STEP IN P-LOCK MODE TO EDIT NOTE/VEL/NUDGE/COND/RETRIG</div>}
             </div>
             
             <button onClick={onPLockToggle} className={`px-4 py-2 my-1 rounded-md font-bold text-sm uppercase tracking-wider transition-all border w-32 ${pLockModeActive ? 'bg-red-600 border-red-400 text-white' : 'bg-gray-700 border-gray-900 hover:bg-gray-600 text-gray-300'}`} style={{ boxShadow: pLockModeActive ? '0 0 10px var(--plock-color), inset 0 0 5px #f66a' : 'inset 0 1px 2px rgba(0,0,0,0.6)'}}>
@@ -0,0 +1,55 @@
+import React from 'react';
+
+interface StepToolsPanelProps {
+    targetLabel: string;
+    hasSelection: boolean;
+    hasClipboard: boolean;
+    pasteLocks: boolean;
+    onCopy: () => void;
+    onPaste: () => void;
+    onPasteLocksToggle: () => void;
+    onShift: (amount: number, wrap: boolean) => void;
+    onReverse: () => void;
+    onInvert: () => void;
+    onDouble: () => void;
+    onClearSelection: () => void;
+}
+
+const ToolButton: React.FC<{ label: string; title: string; onClick: () => void; disabled?: boolean; isActive?: boolean }> = ({ label, title, onClick, disabled, isActive }) => (
+    <button onClick={onClick} title={title} disabled={disabled}
+        className={`px-2 py-1 text-xs font-bold rounded-sm border whitespace-nowrap disabled:opacity-40 ${isActive ? 'bg-[var(--accent-color)] text-black border-[var(--accent-color)]' : 'bg-gray-700 hover:bg-gray-600 border-black/50'}`}>
+        {label}
+    </button>
+);
+
+// Tools for the selected range of steps; without a selection they work on the selected track's pattern
+const StepToolsPanel: React.FC<StepToolsPanelProps> = ({
+    targetLabel, hasSelection, hasClipboard, pasteLocks, onCopy, onPaste, onPasteLocksToggle, onShift, onReverse, onInvert, onDouble, onClearSelection
+}) => (
+    <div className="flex items-center bg-black/30 p-2 rounded border border-black flex-shrink-0 space-x-2 overflow-x-auto no-scrollbar">
+        <span className="text-[10px] text-gray-500 font-mono">STEPS</span>
+        <span className="text-[10px] text-[var(--text-screen)] font-mono bg-[#111] px-2 py-1 rounded-sm border border-black/50 whitespace-nowrap" title="Shift+click steps to select a range">
+            {targetLabel}
+        </span>
+        <div className="flex space-x-1">
+            <ToolButton label="COPY" title="Copy the steps" onClick={onCopy} />
+            <ToolButton label="PASTE" title="Paste at the start of the selection, or at step 1 of the selected track" onClick={onPaste} disabled={!hasClipboard} />
+            <ToolButton label="LOCKS" title="Paste p-locks with the trigs" onClick={onPasteLocksToggle} isActive={pasteLocks} />
+        </div>
+        <div className="flex space-x-1">
+            <ToolButton label="< NUDGE" title="Move the steps one step left" onClick={() => onShift(-1, false)} />
+            <ToolButton label="NUDGE >" title="Move the steps one step right" onClick={() => onShift(1, false)} />
+            <ToolButton label="< ROT" title="Rotate the steps one step left" onClick={() => onShift(-1, true)} />
+            <ToolButton label="ROT >" title="Rotate the steps one step right" onClick={() => onShift(1, true)} />
+        </div>
+        <div className="flex space-x-1">
+            <ToolButton label="REV" title="Reverse the steps" onClick={onReverse} />
+            <ToolButton label="INV" title="Turn trigs off and empty steps on" onClick={onInvert} />
+            <ToolButton label="x2" title="Double the pattern length, repeating the pattern in the new half" onClick={onDouble} />
+        </div>
+        <div className="flex-grow" />
+        <ToolButton label="DESELECT" title="Clear the selection" onClick={onClearSelection} disabled={!hasSelection} />
+    </div>
+);
+
+export default React.memo(StepToolsPanel);
@@ -1,13 +1,104 @@
-import { Track, StepState, FilterType, KickParams, HatParams, PolyParams, BassParams, ModalParams, LFOParams, RiftParams, GrainParams, ScreamParams } from './types';
+import { Track, StepState, GlobalFXParams, MidiNoteMapEntry, TrackMidiOut, GrooveTemplate, TrigCondition, ChordType, EuclidSettings, RandomRule, RandomizerSettings, ScaleId, ProjectScale, TrackType, ArpParams, FilterType, KickParams, HatParams, PolyParams, BassParams, ModalParams, LFOParams, RiftParams, GrainParams, ScreamParams, SampleParams, AllInstrumentParams } from './types';
 
-const STEPS = 16;
+// Every track stores this many steps; `patternLength` picks how many of them play
+export const MAX_PATTERN_LENGTH = 64;
 
-const createEmptySteps = (): StepState[] => Array(STEPS).fill(null).map(() => ({ 
+export const PATTERN_BANKS = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'];
+export const PATTERNS_PER_BANK = 16;
+export const PATTERN_COUNT = PATTERN_BANKS.length * PATTERNS_PER_BANK;
+
+export const createEmptyStep = (): StepState => ({
     active: false, 
     pLocks: null,
     note: null,
     velocity: 1.0,
-}));
+    microTiming: 0,
+    probability: 100,
+    condition: null,
+    retrigCount: 1,
+    retrigRate: 4,
+    retrigVelocityRamp: 0,
+    gateLength: 0.5,
+    slide: false,
+    accent: false,
+    chord: null,
+    paramSlide: false,
+});
+
+export const createEmptySteps = (): StepState[] => Array.from({ length: MAX_PATTERN_LENGTH }, createEmptyStep);
+
+export const MAX_POLY_VOICES = 8;
+
+// Semitones above the root
+export const CHORD_TYPES: { type: ChordType; name: string; intervals: number[] }[] = [
+    { type: 'maj', name: 'MAJ', intervals: [0, 4, 7] },
+    { type: 'min', name: 'MIN', intervals: [0, 3, 7] },
+    { type: '5', name: '5', intervals: [0, 7, 12] },
+    { type: 'sus2', name: 'SUS2', intervals: [0, 2, 7] },
+    { type: 'sus4', name: 'SUS4', intervals: [0, 5, 7] },
+    { type: 'dim', name: 'DIM', intervals: [0, 3, 6] },
+    { type: 'aug', name: 'AUG', intervals: [0, 4, 8] },
+    { type: 'maj7', name: 'MAJ7', intervals: [0, 4, 7, 11] },
+    { type: 'min7', name: 'MIN7', intervals: [0, 3, 7, 10] },
+    { type: '7', name: '7', intervals: [0, 4, 7, 10] },
+    { type: 'add9', name: 'ADD9', intervals: [0, 4, 7, 14] },
+    { type: 'min9', name: 'MIN9', intervals: [0, 3, 7, 10, 14] },
+];
+
+export const DEFAULT_RANDOMIZER_SETTINGS: RandomizerSettings = {
+    seed: 1,
+    density: 0.35,
+    velocityMin: 0.6,
+    velocityMax: 1.0,
+    noteMin: 48, // C3
+    noteMax: 72, // C5
+    mutateAmount: 0.25,
+};
+
+export const RANDOM_RULES: { rule: RandomRule; name: string; description: string }[] = [
+    { rule: 'downbeats', name: 'DOWN', description: 'Always hit on the quarter notes' },
+    { rule: 'offbeats', name: 'OFF', description: 'Always hit on the 8th note offbeats' },
+    { rule: 'noDownbeats', name: 'NO DOWN', description: 'Never hit on the quarter notes' },
+    { rule: 'notFirst', name: 'NOT 1', description: 'Never hit on step 1' },
+    { rule: 'varyLength', name: 'POLY LEN', description: 'Pick a pattern length up to a quarter shorter, e.g. 12 to 16 steps on a 16-step track' },
+];
+
+export const DEFAULT_EUCLID_SETTINGS: EuclidSettings = {
+    pulses: 4,
+    steps: 16,
+    rotation: 0,
+    accentEvery: 0,
+    velocity: 0.8,
+    velocityShape: 'flat',
+    velocitySpread: 0.5,
+    seed: 1,
+};
+
+// Semitones above the root; 'custom' takes its intervals from the project
+export const SCALES: { id: Exclude<ScaleId, 'custom'>; name: string; intervals: number[] }[] = [
+    { id: 'major', name: 'MAJOR', intervals: [0, 2, 4, 5, 7, 9, 11] },
+    { id: 'minor', name: 'MINOR', intervals: [0, 2, 3, 5, 7, 8, 10] },
+    { id: 'dorian', name: 'DORIAN', intervals: [0, 2, 3, 5, 7, 9, 10] },
+    { id: 'phrygian', name: 'PHRYG', intervals: [0, 1, 3, 5, 7, 8, 10] },
+    { id: 'lydian', name: 'LYDIAN', intervals: [0, 2, 4, 6, 7, 9, 11] },
+    { id: 'mixolydian', name: 'MIXO', intervals: [0, 2, 4, 5, 7, 9, 10] },
+    { id: 'locrian', name: 'LOCRIAN', intervals: [0, 1, 3, 5, 6, 8, 10] },
+    { id: 'majorPentatonic', name: 'MAJ PENT', intervals: [0, 2, 4, 7, 9] },
+    { id: 'minorPentatonic', name: 'MIN PENT', intervals: [0, 3, 5, 7, 10] },
+    { id: 'harmonicMinor', name: 'HARM MIN', intervals: [0, 2, 3, 5, 7, 8, 11] },
+];
+
+export const DEFAULT_SCALE: ProjectScale = { root: 0, scale: 'minorPentatonic', customIntervals: [0, 3, 5, 7, 10] };
+
+// Track types whose steps carry a pitch; scales and transpose leave the others alone
+export const MELODIC_TRACK_TYPES: TrackType[] = ['poly', 'bass', 'modal', 'rift', 'grain', 'scream', 'sample'];
+
+const RATIO_CONDITIONS: TrigCondition[] = [2, 3, 4, 5, 6, 7, 8].flatMap(b =>
+    Array.from({ length: b }, (_, i) => `${i + 1}:${b}` as TrigCondition));
+
+export const TRIG_CONDITIONS: TrigCondition[] = [
+    'FILL', 'NOT FILL', 'PRE', 'NOT PRE', 'NEI', 'NOT NEI', '1ST', 'NOT 1ST', ...RATIO_CONDITIONS,
+];
 
 const NEUTRAL_LFO: LFOParams = {
     waveform: 'triangle',
@@ -18,6 +109,13 @@ const NEUTRAL_LFO: LFOParams = {
 
 const NEUTRAL_FILTER: FilterType = 'lowpass';
 
+const NEUTRAL_ARP: ArpParams = {
+    mode: 'off',
+    division: 0.25,
+    octaves: 1,
+    gate: 0.5,
+};
+
 // --- Initial Instrument Parameters (Tuned for good default sound) ---
 
 const INITIAL_KICK_PARAMS: KickParams = {
@@ -57,6 +155,7 @@ const INITIAL_POLY_PARAMS: PolyParams = {
     filterEnv: { attack: 0.02, decay: 0.4, sustain: 0, release: 0.4 },
     lfo1: NEUTRAL_LFO,
     lfo2: NEUTRAL_LFO,
+    arp: NEUTRAL_ARP,
 };
 
 const INITIAL_BASS_PARAMS: BassParams = {
@@ -68,6 +167,7 @@ const INITIAL_BASS_PARAMS: BassParams = {
     filter: { type: NEUTRAL_FILTER, cutoff: 20000, resonance: 1 },
     lfo1: NEUTRAL_LFO,
     lfo2: NEUTRAL_LFO,
+    arp: NEUTRAL_ARP,
 };
 
 const INITIAL_MODAL_PARAMS: ModalParams = {
@@ -78,6 +178,7 @@ const INITIAL_MODAL_PARAMS: ModalParams = {
   filter: { type: NEUTRAL_FILTER, cutoff: 20000, resonance: 1 },
   lfo1: NEUTRAL_LFO,
   lfo2: NEUTRAL_LFO,
+  arp: NEUTRAL_ARP,
 };
 
 const INITIAL_RIFT_PARAMS: RiftParams = {
@@ -110,8 +211,38 @@ const INITIAL_SCREAM_PARAMS: ScreamParams = {
     filter: { type: 'lowpass', cutoff: 15000, resonance: 1 },
     lfo1: NEUTRAL_LFO,
     lfo2: NEUTRAL_LFO,
+    arp: NEUTRAL_ARP,
 }
 
+const INITIAL_SAMPLE_PARAMS: SampleParams = {
+    sampleId: null,
+    sampleName: '',
+    pitch: 0,
+    start: 0,
+    end: 100,
+    reverse: false,
+    loop: false,
+    ampEnv: { attack: 0.001, decay: 1, sustain: 1, release: 0.2 },
+    filter: { type: 'lowpass', cutoff: 20000, resonance: 1 },
+    lfo1: NEUTRAL_LFO,
+    lfo2: NEUTRAL_LFO,
+}
+
+// The sound a track starts with when it is switched to an engine
+export const INITIAL_ENGINE_PARAMS: Record<TrackType, AllInstrumentParams> = {
+    kick: INITIAL_KICK_PARAMS,
+    hat: INITIAL_HAT_PARAMS,
+    poly: INITIAL_POLY_PARAMS,
+    bass: INITIAL_BASS_PARAMS,
+    modal: INITIAL_MODAL_PARAMS,
+    rift: INITIAL_RIFT_PARAMS,
+    grain: INITIAL_GRAIN_PARAMS,
+    scream: INITIAL_SCREAM_PARAMS,
+    sample: INITIAL_SAMPLE_PARAMS,
+};
+
+export const TRACK_TYPES = Object.keys(INITIAL_ENGINE_PARAMS) as TrackType[];
+
 
 export const INITIAL_TRACKS: Track[] = [
   {
@@ -124,6 +255,7 @@ export const INITIAL_TRACKS: Track[] = [
     patternLength: 16,
     defaultNote: 'C2',
     steps: createEmptySteps(),
+    randomRules: ['downbeats'],
   },
   {
     id: 1,
@@ -135,6 +267,7 @@ export const INITIAL_TRACKS: Track[] = [
     patternLength: 16,
     defaultNote: 'C5',
     steps: createEmptySteps(),
+    randomRules: ['varyLength'],
   },
   {
     id: 2,
@@ -146,6 +279,7 @@ export const INITIAL_TRACKS: Track[] = [
     patternLength: 16,
     defaultNote: 'C4',
     steps: createEmptySteps(),
+    randomRules: ['varyLength'],
   },
   {
     id: 3,
@@ -157,6 +291,7 @@ export const INITIAL_TRACKS: Track[] = [
     patternLength: 16,
     defaultNote: 'C1',
     steps: createEmptySteps(),
+    randomRules: ['varyLength'],
   },
   {
     id: 4,
@@ -168,6 +303,7 @@ export const INITIAL_TRACKS: Track[] = [
     patternLength: 16,
     defaultNote: 'C4',
     steps: createEmptySteps(),
+    randomRules: ['varyLength'],
   },
   {
     id: 5,
@@ -179,6 +315,7 @@ export const INITIAL_TRACKS: Track[] = [
     patternLength: 16,
     defaultNote: 'C3',
     steps: createEmptySteps(),
+    randomRules: ['varyLength'],
   },
   {
     id: 6,
@@ -190,6 +327,7 @@ export const INITIAL_TRACKS: Track[] = [
     patternLength: 16,
     defaultNote: 'C4',
     steps: createEmptySteps(),
+    randomRules: ['varyLength'],
   },
   {
     id: 7,
@@ -201,9 +339,64 @@ export const INITIAL_TRACKS: Track[] = [
     patternLength: 16,
     defaultNote: 'C5',
     steps: createEmptySteps(),
+    randomRules: ['varyLength'],
   }
 ];
 
+export const INITIAL_GLOBAL_FX_PARAMS: GlobalFXParams = {
+    reverb: { decay: 0.5, mix: 0.3, preDelay: 0.02, preDelaySync: false, preDelayDivision: 0.25 },
+    delay: { time: 0.3, feedback: 0.4, mix: 0.3, timeSync: true, timeDivision: 0.75 },
+    drive: { amount: 20, tone: 8000, mix: 0.1 },
+    compressor: { threshold: -24, ratio: 4, knee: 10, attack: 0.003, release: 0.25, makeup: 3 },
+};
+
+// GM drum notes for the percussive tracks on channel 10, one channel per melodic track
+export const DEFAULT_MIDI_NOTE_MAP: MidiNoteMapEntry[] = [
+    { trackId: 0, channel: 9, note: 36 },
+    { trackId: 1, channel: 9, note: 42 },
+    { trackId: 2, channel: 0, note: null },
+    { trackId: 3, channel: 1, note: null },
+    { trackId: 4, channel: 2, note: null },
+    { trackId: 5, channel: 3, note: null },
+    { trackId: 6, channel: 4, note: null },
+    { trackId: 7, channel: 5, note: null },
+];
+
+// MPC-style shuffles delay every second 16th: at N% it lands N% of the way through its 8th note
+const createShuffle = (percent: number, offbeatVelocity: number): GrooveTemplate => ({
+    id: `mpc-${percent}`,
+    name: `MPC ${percent}%`,
+    offsets: Array.from({ length: 16 }, (_, i) => i % 2 === 1 ? (percent / 50) - 1 : 0),
+    velocities: Array.from({ length: 16 }, (_, i) => i % 2 === 1 ? offbeatVelocity : 1),
+});
+
+export const GROOVE_TEMPLATES: GrooveTemplate[] = [
+    createShuffle(54, 0.95),
+    createShuffle(58, 0.9),
+    createShuffle(62, 0.85),
+    createShuffle(66, 0.8),
+    createShuffle(71, 0.75),
+    {
+        id: 'laid-back',
+        name: 'LAID BACK',
+        offsets: [0, 0.05, 0.1, 0.08, 0, 0.05, 0.12, 0.08, 0, 0.05, 0.1, 0.08, 0, 0.05, 0.12, 0.08],
+        velocities: [1, 0.7, 0.85, 0.7, 0.95, 0.7, 0.85, 0.7, 1, 0.7, 0.85, 0.7, 0.95, 0.7, 0.85, 0.7],
+    },
+    {
+        id: 'push',
+        name: 'PUSH',
+        offsets: [0, -0.06, 0, -0.1, 0, -0.06, 0, -0.1, 0, -0.06, 0, -0.1, 0, -0.06, 0, -0.1],
+        velocities: [1, 0.8, 0.9, 0.85, 1, 0.8, 0.9, 0.85, 1, 0.8, 0.9, 0.85, 1, 0.8, 0.9, 0.85],
+    },
+];
+
+export const createTrackMidiOut = (trackId: number): TrackMidiOut => ({
+    outputId: null,
+    channel: DEFAULT_MIDI_NOTE_MAP.find(e => e.trackId === trackId)?.channel ?? 0,
+    gate: 0.5,
+    internal: true,
+});
+
 export const TIME_DIVISIONS = [
     { name: '1/64', value: 0.0625 },
     { name: '1/32', value: 0.125 },
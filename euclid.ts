@@ -0,0 +1,39 @@
+import { StepState, EuclidSettings } from './types';
+import { createSeededRandom } from './utils';
+
+// --- Euclidean rhythm generator ---
+
+// `pulses` onsets spread as evenly as possible over `steps`, rotated right by `rotation`
+export const getEuclideanRhythm = (pulses: number, steps: number, rotation = 0): boolean[] => {
+    const count = Math.max(0, Math.min(steps, pulses));
+    const shift = ((rotation % steps) + steps) % steps;
+    return Array.from({ length: steps }, (_, i) => ((i - shift + steps) % steps * count) % steps < count);
+};
+
+const getPulseVelocity = (settings: EuclidSettings, pulse: number, pulseCount: number, random: () => number): number => {
+    const t = pulseCount > 1 ? pulse / (pulseCount - 1) : 0;
+    const { velocity, velocitySpread } = settings;
+    switch (settings.velocityShape) {
+        case 'rampUp': return velocity * (1 - velocitySpread * (1 - t));
+        case 'rampDown': return velocity * (1 - velocitySpread * t);
+        case 'random': return velocity * (1 - velocitySpread * random());
+        default: return velocity;
+    }
+};
+
+// Writes the rhythm over the first `patternLength` steps. Only `active`, `velocity` and `accent`
+// change (`accent` only when accents are on), so notes, p-locks and conditions of the steps survive.
+export const applyEuclidean = (steps: StepState[], patternLength: number, settings: EuclidSettings): StepState[] => {
+    const cycle = Math.max(1, Math.min(patternLength, settings.steps));
+    const rhythm = getEuclideanRhythm(settings.pulses, cycle, settings.rotation);
+    const pulseCount = rhythm.filter(Boolean).length;
+    const random = createSeededRandom(settings.seed);
+    return steps.map((step, i) => {
+        if (i >= patternLength) return step;
+        if (!rhythm[i % cycle]) return { ...step, active: false };
+        const pulse = rhythm.slice(0, i % cycle).filter(Boolean).length;
+        const isAccent = settings.accentEvery > 0 && pulse % settings.accentEvery === 0;
+        const velocity = isAccent ? 1 : getPulseVelocity(settings, pulse, pulseCount, random);
+        return { ...step, active: true, velocity: Math.max(0.05, Math.min(1, velocity)), accent: settings.accentEvery > 0 ? isAccent : step.accent };
+    });
+};
@@ -0,0 +1,47 @@
+import { Track, GlobalFXParams } from './types';
+
+// --- Undo / redo ---
+// Snapshots of the editable project state. State is never mutated, so a snapshot only holds
+// references and costs next to nothing to keep.
+
+export const MAX_HISTORY = 100;
+// Edits with the same key this close together (ms) become one entry, e.g. all the changes of a knob drag
+const COALESCE_WINDOW = 1000;
+
+export interface HistorySnapshot {
+    tracks: Track[];
+    globalFxParams: GlobalFXParams;
+    bpm: number;
+    patternIndex: number; // pattern the tracks' steps belong to
+    patternTranspose: number; // that pattern's transpose, which pattern paste and clear change with the steps
+}
+
+export interface History {
+    past: HistorySnapshot[];
+    future: HistorySnapshot[];
+    lastKey: string | null;
+    lastTime: number;
+}
+
+export const createHistory = (): History => ({ past: [], future: [], lastKey: null, lastTime: 0 });
+
+// Records `before`, the state an edit is about to change. An edit with a `key` that continues the
+// previous edit of the same key adds nothing, so the entry still restores the state before the first.
+export const recordEdit = (history: History, before: HistorySnapshot, key: string | null, now: number): History => {
+    if (key !== null && key === history.lastKey && now - history.lastTime < COALESCE_WINDOW) {
+        return { ...history, lastTime: now };
+    }
+    return { past: [...history.past, before].slice(-MAX_HISTORY), future: [], lastKey: key, lastTime: now };
+};
+
+export const undoEdit = (history: History, current: HistorySnapshot): { history: History; snapshot: HistorySnapshot } | null => {
+    const snapshot = history.past[history.past.length - 1];
+    if (!snapshot) return null;
+    return { snapshot, history: { past: history.past.slice(0, -1), future: [current, ...history.future], lastKey: null, lastTime: 0 } };
+};
+
+export const redoEdit = (history: History, current: HistorySnapshot): { history: History; snapshot: HistorySnapshot } | null => {
+    const snapshot = history.future[0];
+    if (!snapshot) return null;
+    return { snapshot, history: { past: [...history.past, current], future: history.future.slice(1), lastKey: null, lastTime: 0 } };
+};
@@ -0,0 +1,215 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MidiEngine, MidiAccessLike, MidiInputLike, MidiEngineCallbacks, CLOCK_PPQN } from './midi';
+
+// A Web MIDI access object with one input and one output, recording everything sent to the output
+const createFakeAccess = () => {
+    const input: MidiInputLike = { id: 'in-1', name: 'Fake In', onmidimessage: null };
+    const sent: { data: number[]; timestamp?: number }[] = [];
+    const access: MidiAccessLike = {
+        inputs: new Map([[input.id, input]]),
+        outputs: new Map([['out-1', { id: 'out-1', name: 'Fake Out', send: (data, timestamp) => { sent.push({ data, timestamp }); } }]]),
+        onstatechange: null,
+    };
+    const receive = (data: number[], timeStamp = 0) => input.onmidimessage?.({ data: new Uint8Array(data), timeStamp });
+    return { access, sent, receive };
+};
+
+const createEngine = (callbacks: MidiEngineCallbacks) => {
+    const fake = createFakeAccess();
+    const engine = new MidiEngine(callbacks);
+    engine.setAccess(fake.access);
+    return { engine, ...fake };
+};
+
+// Clock ticks at `bpm` starting at `startMs`; returns the time of the tick after the last one
+const sendClock = (receive: (data: number[], timeStamp?: number) => void, ticks: number, bpm: number, startMs = 0) => {
+    const interval = 60000 / bpm / CLOCK_PPQN;
+    for (let i = 0; i < ticks; i++) receive([0xF8], startMs + i * interval);
+    return startMs + ticks * interval;
+};
+
+describe('MidiEngine clock follow', () => {
+    it('starts, steps every 6 ticks and stops', () => {
+        const onClockStart = vi.fn();
+        const onClockStep = vi.fn();
+        const onClockStop = vi.fn();
+        const { engine, receive } = createEngine({ onClockStart, onClockStep, onClockStop });
+        engine.setClockMode('follow');
+
+        receive([0xFA]);
+        sendClock(receive, 13, 120);
+        receive([0xFC]);
+
+        expect(onClockStart).toHaveBeenCalledWith(0);
+        expect(onClockStep.mock.calls.map(([position]) => position)).toEqual([0, 1, 2]);
+        expect(onClockStop).toHaveBeenCalledTimes(1);
+    });
+
+    it('ignores clock ticks until started', () => {
+        const onClockStep = vi.fn();
+        const { engine, receive } = createEngine({ onClockStep });
+        engine.setClockMode('follow');
+
+        sendClock(receive, 12, 120);
+
+        expect(onClockStep).not.toHaveBeenCalled();
+    });
+
+    it('continues from where it stopped', () => {
+        const onClockStart = vi.fn();
+        const onClockStep = vi.fn();
+        const { engine, receive } = createEngine({ onClockStart, onClockStep });
+        engine.setClockMode('follow');
+
+        receive([0xFA]);
+        sendClock(receive, 24, 120);
+        receive([0xFC]);
+        onClockStep.mockClear();
+        receive([0xFB]);
+        sendClock(receive, 1, 120);
+
+        expect(onClockStart).toHaveBeenLastCalledWith(4);
+        expect(onClockStep).toHaveBeenCalledWith(4, expect.any(Number));
+    });
+
+    it('continues from a song position pointer', () => {
+        const onClockStart = vi.fn();
+        const onClockStep = vi.fn();
+        const { engine, receive } = createEngine({ onClockStart, onClockStep });
+        engine.setClockMode('follow');
+
+        // 200 sixteenths: LSB 72, MSB 1
+        receive([0xF2, 200 & 0x7F, 200 >> 7]);
+        receive([0xFB]);
+        sendClock(receive, 7, 120);
+
+        expect(onClockStart).toHaveBeenCalledWith(200);
+        expect(onClockStep.mock.calls.map(([position]) => position)).toEqual([200, 201]);
+    });
+
+    it('restarts from the top on start after a song position pointer', () => {
+        const onClockStart = vi.fn();
+        const { engine, receive } = createEngine({ onClockStart });
+        engine.setClockMode('follow');
+
+        receive([0xF2, 16, 0]);
+        receive([0xFA]);
+
+        expect(onClockStart).toHaveBeenCalledWith(0);
+    });
+
+    it('derives the tempo from 24 ticks per quarter note', () => {
+        const onClockTempo = vi.fn();
+        const { engine, receive } = createEngine({ onClockTempo });
+        engine.setClockMode('follow');
+
+        const end = sendClock(receive, CLOCK_PPQN + 1, 133);
+        expect(onClockTempo).toHaveBeenLastCalledWith(133);
+
+        sendClock(receive, CLOCK_PPQN + 1, 90, end);
+        expect(onClockTempo).toHaveBeenLastCalledWith(90);
+    });
+
+    it('only follows the selected clock input and only in follow mode', () => {
+        const onClockStart = vi.fn();
+        const { engine, receive } = createEngine({ onClockStart });
+
+        receive([0xFA]);
+        engine.setClockMode('follow');
+        engine.setClockInput('other-input');
+        receive([0xFA]);
+        expect(onClockStart).not.toHaveBeenCalled();
+
+        engine.setClockInput('in-1');
+        receive([0xFA]);
+        expect(onClockStart).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('MidiEngine clock master', () => {
+    it('sends start, a song position with continue, clock ticks and stop', () => {
+        const { engine, sent } = createEngine({});
+        engine.setClockMode('master');
+        engine.setClockOutput('out-1');
+
+        engine.sendStart(0);
+        engine.sendStepClock(0, 120);
+        engine.sendStart(0, 200);
+        engine.sendStop(0);
+
+        expect(sent.map(({ data }) => data)).toEqual([
+            [0xFA],
+            ...Array(CLOCK_PPQN / 4).fill([0xF8]),
+            [0xF2, 72, 1], [0xFB],
+            [0xFC],
+        ]);
+        expect(sent.slice(1, 7).map(({ timestamp }) => timestamp)).toEqual([0, 20, 40, 60, 80, 100]);
+    });
+
+    it('sends nothing outside master mode', () => {
+        const { engine, sent } = createEngine({});
+        engine.setClockOutput('out-1');
+
+        engine.sendStart(0);
+        engine.sendStepClock(0, 120);
+        engine.sendStop(0);
+
+        expect(sent).toEqual([]);
+    });
+});
+
+describe('MidiEngine notes and CC', () => {
+    it('routes note on, note off and control change with 0-based channels', () => {
+        const onNoteOn = vi.fn();
+        const onNoteOff = vi.fn();
+        const onControlChange = vi.fn();
+        const { receive } = createEngine({ onNoteOn, onNoteOff, onControlChange });
+
+        receive([0x92, 60, 100], 5);
+        receive([0x82, 60, 0], 6);
+        receive([0x92, 62, 0], 7);
+        receive([0xB5, 74, 127], 8);
+
+        expect(onNoteOn).toHaveBeenCalledWith(2, 60, 100, 5);
+        // Note on with velocity 0 is a note off
+        expect(onNoteOff.mock.calls).toEqual([[2, 60, 6], [2, 62, 7]]);
+        expect(onControlChange).toHaveBeenCalledWith(5, 74, 127, 8);
+    });
+
+    it('ignores notes from inputs other than the selected one', () => {
+        const onNoteOn = vi.fn();
+        const { engine, receive } = createEngine({ onNoteOn });
+
+        engine.setNoteInput('other-input');
+        receive([0x90, 60, 100]);
+        expect(onNoteOn).not.toHaveBeenCalled();
+
+        engine.setNoteInput('in-1');
+        receive([0x90, 60, 100]);
+        expect(onNoteOn).toHaveBeenCalledTimes(1);
+    });
+
+    it('sends a note with its note off and clamps CC values', () => {
+        const { engine, sent } = createEngine({});
+
+        engine.sendNote('out-1', 3, 60, 200, 1000, 250);
+        engine.sendControlChange('out-1', 3, 74, 130.4, 1000);
+
+        expect(sent).toEqual([
+            { data: [0x93, 60, 127], timestamp: 1000 },
+            { data: [0x83, 60, 0], timestamp: 1250 },
+            { data: [0xB3, 74, 127], timestamp: 1000 },
+        ]);
+    });
+
+    it('unbinds the inputs when the access is replaced', () => {
+        const onNoteOn = vi.fn();
+        const { engine, access, receive } = createEngine({ onNoteOn });
+
+        engine.setAccess(null);
+        receive([0x90, 60, 100]);
+
+        expect(onNoteOn).not.toHaveBeenCalled();
+        expect(access.onstatechange).toBeNull();
+    });
+});
@@ -0,0 +1,285 @@
+// --- Web MIDI subsystem ---
+// Only the parts of the Web MIDI API used here are typed, so a fake access object can be
+// passed in place of `navigator.requestMIDIAccess()` when testing without hardware.
+
+export interface MidiMessageEventLike {
+    data: Uint8Array | null;
+    timeStamp: number;
+}
+
+export interface MidiInputLike {
+    id: string;
+    name?: string | null;
+    onmidimessage: ((event: MidiMessageEventLike) => void) | null;
+}
+
+export interface MidiOutputLike {
+    id: string;
+    name?: string | null;
+    send(data: number[], timestamp?: number): void;
+}
+
+export interface MidiAccessLike {
+    inputs: ReadonlyMap<string, MidiInputLike>;
+    outputs: ReadonlyMap<string, MidiOutputLike>;
+    onstatechange: ((event: Event) => void) | null;
+}
+
+export interface MidiPortInfo {
+    id: string;
+    name: string;
+}
+
+export type ClockMode = 'off' | 'master' | 'follow';
+
+export const CLOCK_PPQN = 24;
+const TICKS_PER_STEP = CLOCK_PPQN / 4;
+const TEMPO_WINDOW_TICKS = CLOCK_PPQN;
+
+// System real-time / common status bytes
+const MIDI_CLOCK = 0xF8;
+const MIDI_START = 0xFA;
+const MIDI_CONTINUE = 0xFB;
+const MIDI_STOP = 0xFC;
+const MIDI_SONG_POSITION = 0xF2;
+
+// Channel voice message types (upper nibble of the status byte)
+const NOTE_OFF = 0x80;
+const NOTE_ON = 0x90;
+const CONTROL_CHANGE = 0xB0;
+
+export interface MidiEngineCallbacks {
+    onPortsChange?: (inputs: MidiPortInfo[], outputs: MidiPortInfo[]) => void;
+    // Follow mode: `stepPosition` counts 16th notes from the song start
+    onClockStart?: (stepPosition: number) => void;
+    onClockStop?: () => void;
+    onClockStep?: (stepPosition: number, timeStamp: number) => void;
+    onClockTempo?: (bpm: number) => void;
+    // `channel` is 0-based; velocity is the raw 1..127 value
+    onNoteOn?: (channel: number, note: number, velocity: number, timeStamp: number) => void;
+    onNoteOff?: (channel: number, note: number, timeStamp: number) => void;
+    onControlChange?: (channel: number, controller: number, value: number, timeStamp: number) => void;
+}
+
+export const requestMidiAccess = async (): Promise<MidiAccessLike | null> => {
+    if (typeof navigator === 'undefined' || !navigator.requestMIDIAccess) return null;
+    try {
+        return await navigator.requestMIDIAccess({ sysex: false });
+    } catch (e) {
+        console.error('MIDI access was denied', e);
+        return null;
+    }
+};
+
+// Web MIDI timestamps live on the `performance.now()` timeline, the scheduler on the audio clock
+export const audioTimeToMidiTime = (context: BaseAudioContext, time: number): number =>
+    performance.now() + (time - context.currentTime) * 1000;
+
+export const midiTimeToAudioTime = (context: BaseAudioContext, timeStamp: number): number =>
+    Math.max(context.currentTime, context.currentTime + (timeStamp - performance.now()) / 1000);
+
+export class MidiEngine {
+    private access: MidiAccessLike | null = null;
+    private callbacks: MidiEngineCallbacks;
+
+    private clockMode: ClockMode = 'off';
+    private clockOutputId: string | null = null;
+    private clockInputId: string | null = null;
+    private noteInputId: string | null = null;
+
+    // Follow-mode state
+    private isFollowing = false;
+    private followTicks = 0;
+    private songPosition = 0;
+    private tickTimes: number[] = [];
+    private lastReportedBpm = 0;
+
+    constructor(callbacks: MidiEngineCallbacks = {}) {
+        this.callbacks = callbacks;
+    }
+
+    public setCallbacks(callbacks: MidiEngineCallbacks) {
+        this.callbacks = callbacks;
+    }
+
+    public setAccess(access: MidiAccessLike | null) {
+        if (this.access) {
+            this.access.onstatechange = null;
+            this.access.inputs.forEach(input => { input.onmidimessage = null; });
+        }
+        this.access = access;
+        if (access) {
+            access.onstatechange = () => this.bindInputs();
+            this.bindInputs();
+        }
+    }
+
+    public hasAccess() { return this.access !== null; }
+
+    public getInputs(): MidiPortInfo[] {
+        return this.access ? Array.from(this.access.inputs.values()).map(p => ({ id: p.id, name: p.name || p.id })) : [];
+    }
+
+    public getOutputs(): MidiPortInfo[] {
+        return this.access ? Array.from(this.access.outputs.values()).map(p => ({ id: p.id, name: p.name || p.id })) : [];
+    }
+
+    private bindInputs() {
+        if (!this.access) return;
+        this.access.inputs.forEach(input => {
+            input.onmidimessage = (event) => {
+                if (event.data) this.handleMessage(input.id, event.data, event.timeStamp);
+            };
+        });
+        this.callbacks.onPortsChange?.(this.getInputs(), this.getOutputs());
+    }
+
+    private send(outputId: string | null, data: number[], timestamp?: number) {
+        if (!this.access || outputId === null) return;
+        this.access.outputs.get(outputId)?.send(data, timestamp);
+    }
+
+    // --- Clock configuration ---
+
+    public setClockMode(mode: ClockMode) {
+        this.clockMode = mode;
+        this.resetFollowState();
+    }
+
+    public getClockMode() { return this.clockMode; }
+
+    public setClockOutput(outputId: string | null) { this.clockOutputId = outputId; }
+
+    public setClockInput(inputId: string | null) {
+        this.clockInputId = inputId;
+        this.resetFollowState();
+    }
+
+    public setNoteInput(inputId: string | null) { this.noteInputId = inputId; }
+
+    // --- Clock master ---
+
+    public sendStart(timestamp: number, stepPosition = 0) {
+        if (this.clockMode !== 'master') return;
+        if (stepPosition > 0) {
+            this.sendSongPosition(stepPosition, timestamp);
+            this.send(this.clockOutputId, [MIDI_CONTINUE], timestamp);
+        } else {
+            this.send(this.clockOutputId, [MIDI_START], timestamp);
+        }
+    }
+
+    public sendStop(timestamp?: number) {
+        if (this.clockMode !== 'master') return;
+        this.send(this.clockOutputId, [MIDI_STOP], timestamp);
+    }
+
+    // Song position pointer counts "MIDI beats", which are 16th notes like our steps
+    public sendSongPosition(stepPosition: number, timestamp?: number) {
+        if (this.clockMode !== 'master') return;
+        const position = Math.max(0, Math.min(0x3FFF, Math.floor(stepPosition)));
+        this.send(this.clockOutputId, [MIDI_SONG_POSITION, position & 0x7F, (position >> 7) & 0x7F], timestamp);
+    }
+
+    // Sends the clock ticks that cover one sequencer step starting at `timestamp`
+    public sendStepClock(timestamp: number, stepDurationMs: number) {
+        if (this.clockMode !== 'master') return;
+        const tickInterval = stepDurationMs / TICKS_PER_STEP;
+        for (let i = 0; i < TICKS_PER_STEP; i++) {
+            this.send(this.clockOutputId, [MIDI_CLOCK], timestamp + i * tickInterval);
+        }
+    }
+
+    // --- Note output ---
+
+    public sendNote(outputId: string, channel: number, note: number, velocity: number, timestamp: number, durationMs: number) {
+        const key = Math.max(0, Math.min(127, Math.round(note)));
+        this.send(outputId, [NOTE_ON | (channel & 0x0F), key, Math.max(1, Math.min(127, Math.round(velocity)))], timestamp);
+        this.send(outputId, [NOTE_OFF | (channel & 0x0F), key, 0], timestamp + durationMs);
+    }
+
+    public sendControlChange(outputId: string, channel: number, controller: number, value: number, timestamp: number) {
+        this.send(outputId, [CONTROL_CHANGE | (channel & 0x0F), controller & 0x7F, Math.max(0, Math.min(127, Math.round(value)))], timestamp);
+    }
+
+    // --- Clock follower ---
+
+    private resetFollowState() {
+        this.isFollowing = false;
+        this.followTicks = 0;
+        this.tickTimes = [];
+        this.lastReportedBpm = 0;
+    }
+
+    private handleClockMessage(status: number, data: Uint8Array, timeStamp: number) {
+        switch (status) {
+            case MIDI_START:
+                this.songPosition = 0;
+                // falls through
+            case MIDI_CONTINUE:
+                this.isFollowing = true;
+                this.followTicks = 0;
+                this.callbacks.onClockStart?.(this.songPosition);
+                break;
+            case MIDI_STOP:
+                if (this.isFollowing) {
+                    this.isFollowing = false;
+                    this.songPosition += Math.ceil(this.followTicks / TICKS_PER_STEP);
+                    this.callbacks.onClockStop?.();
+                }
+                break;
+            case MIDI_SONG_POSITION:
+                if (data.length >= 3) this.songPosition = data[1] | (data[2] << 7);
+                break;
+            case MIDI_CLOCK:
+                this.trackTempo(timeStamp);
+                if (!this.isFollowing) return;
+                if (this.followTicks % TICKS_PER_STEP === 0) {
+                    this.callbacks.onClockStep?.(this.songPosition + this.followTicks / TICKS_PER_STEP, timeStamp);
+                }
+                this.followTicks++;
+                break;
+        }
+    }
+
+    private trackTempo(timeStamp: number) {
+        this.tickTimes.push(timeStamp);
+        if (this.tickTimes.length > TEMPO_WINDOW_TICKS + 1) this.tickTimes.shift();
+        if (this.tickTimes.length < TEMPO_WINDOW_TICKS + 1) return;
+
+        const elapsed = this.tickTimes[this.tickTimes.length - 1] - this.tickTimes[0];
+        if (elapsed <= 0) return;
+        const msPerTick = elapsed / TEMPO_WINDOW_TICKS;
+        const bpm = Math.round(60000 / (msPerTick * CLOCK_PPQN) * 10) / 10;
+        if (Math.abs(bpm - this.lastReportedBpm) >= 0.2) {
+            this.lastReportedBpm = bpm;
+            this.callbacks.onClockTempo?.(bpm);
+        }
+    }
+
+    // Entry point for every incoming message; public so tests can inject raw bytes
+    public handleMessage(inputId: string, data: Uint8Array, timeStamp: number) {
+        if (data.length === 0) return;
+        const status = data[0];
+        if (status >= 0xF0) {
+            const acceptsClock = this.clockMode === 'follow' && (this.clockInputId === null || this.clockInputId === inputId);
+            if (acceptsClock) this.handleClockMessage(status, data, timeStamp);
+            return;
+        }
+        if (this.noteInputId !== null && this.noteInputId !== inputId) return;
+        this.handleChannelMessage(status & 0xF0, status & 0x0F, data, timeStamp);
+    }
+
+    private handleChannelMessage(type: number, channel: number, data: Uint8Array, timeStamp: number) {
+        if (data.length < 3) return;
+        const note = data[1];
+        const velocity = data[2];
+        if (type === CONTROL_CHANGE) {
+            this.callbacks.onControlChange?.(channel, data[1], data[2], timeStamp);
+        } else if (type === NOTE_ON && velocity > 0) {
+            this.callbacks.onNoteOn?.(channel, note, velocity, timeStamp);
+        } else if (type === NOTE_OFF || type === NOTE_ON) {
+            this.callbacks.onNoteOff?.(channel, note, timeStamp);
+        }
+    }
+}
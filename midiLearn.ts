@@ -0,0 +1,113 @@
+import { createContext } from 'react';
+import { MidiCCTarget, MidiCCMapping, Track, PLocks } from './types';
+
+// --- MIDI CC learn ---
+// Knobs only know their local parameter path; the surrounding editor provides the scope
+// (which track, the mixer strip or the master FX rack) through `MidiLearnScopeContext`.
+
+export type MidiLearnScope =
+    | { scope: 'track'; trackId: number }
+    | { scope: 'mixer'; trackId: number }
+    | { scope: 'fx' };
+
+export interface MidiLearnRange {
+    min: number;
+    max: number;
+    step: number;
+}
+
+export interface MidiLearnState {
+    active: boolean;
+    selectedKey: string | null;
+    mappedKeys: Set<string>;
+    onSelect: (target: MidiCCTarget, range: MidiLearnRange) => void;
+}
+
+export const MidiLearnContext = createContext<MidiLearnState>({
+    active: false,
+    selectedKey: null,
+    mappedKeys: new Set(),
+    onSelect: () => {},
+});
+
+export const MidiLearnScopeContext = createContext<MidiLearnScope | null>(null);
+
+export const createLearnTarget = (scope: MidiLearnScope, path: string): MidiCCTarget =>
+    scope.scope === 'fx' ? { scope: 'fx', path } : { scope: scope.scope, trackId: scope.trackId, path };
+
+export const getTargetKey = (target: MidiCCTarget): string =>
+    target.scope === 'fx' ? `fx:${target.path}` : `${target.scope}:${target.trackId}:${target.path}`;
+
+export const ccToParamValue = (mapping: MidiCCMapping, ccValue: number): number => {
+    const raw = mapping.min + (ccValue / 127) * (mapping.max - mapping.min);
+    const stepped = mapping.step > 0 ? Math.round(raw / mapping.step) * mapping.step : raw;
+    const fixedPoints = mapping.step < 1 ? String(mapping.step).split('.')[1]?.length || 2 : 0;
+    return parseFloat(Math.max(mapping.min, Math.min(mapping.max, stepped)).toFixed(fixedPoints));
+};
+
+export const paramValueToCC = (mapping: MidiCCMapping, value: number): number => {
+    if (mapping.max === mapping.min) return 0;
+    const normalized = (value - mapping.min) / (mapping.max - mapping.min);
+    return Math.round(Math.max(0, Math.min(1, normalized)) * 127);
+};
+
+// Value of a track or mixer target on a step: the p-lock if there is one, otherwise the track's own setting
+const resolveTargetValue = (track: Track, pLocks: PLocks | null, target: MidiCCTarget): number | undefined => {
+    if (target.scope === 'fx') return undefined;
+    const [key, nested] = target.path.split('.');
+    if (target.scope === 'mixer') {
+        return key === 'fxSends'
+            ? pLocks?.fxSends?.[nested as keyof Track['fxSends']] ?? track.fxSends[nested as keyof Track['fxSends']]
+            : pLocks?.volume ?? track.volume;
+    }
+    const locked = (pLocks?.[`${track.type}Params` as keyof PLocks] as Record<string, any> | undefined)?.[key];
+    const base = (track.params as Record<string, any>)[key];
+    const value = nested === undefined ? locked ?? base : locked?.[nested] ?? base?.[nested];
+    return typeof value === 'number' ? value : undefined;
+};
+
+// Output CCs for the lockable parameters every engine shares, so p-locks reach external gear without
+// learning each one first. The numbers follow the MIDI sound controller and effects depth assignments.
+// Engine-specific parameters (kick punch, grain size and the like) only go out once learned.
+export const DEFAULT_OUTPUT_CCS: { scope: 'track' | 'mixer'; path: string; controller: number; min: number; max: number }[] = [
+    { scope: 'mixer', path: 'volume', controller: 7, min: 0, max: 2 },
+    { scope: 'mixer', path: 'fxSends.reverb', controller: 91, min: 0, max: 1 },
+    { scope: 'mixer', path: 'fxSends.delay', controller: 92, min: 0, max: 1 },
+    { scope: 'mixer', path: 'fxSends.drive', controller: 93, min: 0, max: 1 },
+    { scope: 'track', path: 'filter.resonance', controller: 71, min: 0.1, max: 30 },
+    { scope: 'track', path: 'ampEnv.release', controller: 72, min: 0, max: 4 },
+    { scope: 'track', path: 'ampEnv.attack', controller: 73, min: 0, max: 4 },
+    { scope: 'track', path: 'filter.cutoff', controller: 74, min: 20, max: 20000 },
+    { scope: 'track', path: 'ampEnv.decay', controller: 75, min: 0, max: 8 },
+    { scope: 'track', path: 'lfo1.rate', controller: 76, min: 0.01, max: 50 },
+    { scope: 'track', path: 'lfo1.depth', controller: 77, min: 0, max: 1000 },
+    { scope: 'track', path: 'ampEnv.sustain', controller: 79, min: 0, max: 1 },
+];
+
+// CC values for the parameters of `track` on a step, so external gear follows p-locks.
+// Learned mappings reuse their controller number on output, which matches gear that sends and receives
+// the same CCs; a default CC is skipped when a learned mapping already covers its parameter or number.
+export const getTrackCCValues = (track: Track, pLocks: PLocks | null, mappings: MidiCCMapping[]): { controller: number; value: number }[] => {
+    const learned = mappings.filter(mapping => mapping.target.scope !== 'fx' && mapping.target.trackId === track.id);
+    const learnedKeys = new Set(learned.map(mapping => getTargetKey(mapping.target)));
+    const learnedControllers = new Set(learned.map(mapping => mapping.controller));
+    const defaults: MidiCCMapping[] = DEFAULT_OUTPUT_CCS
+        .map(({ scope, path, controller, min, max }) => ({ channel: 0, controller, target: { scope, trackId: track.id, path }, min, max, step: 0 }))
+        .filter(mapping => !learnedKeys.has(getTargetKey(mapping.target)) && !learnedControllers.has(mapping.controller));
+    return [...learned, ...defaults].flatMap(mapping => {
+        const value = resolveTargetValue(track, pLocks, mapping.target);
+        return value === undefined ? [] : [{ controller: mapping.controller, value: paramValueToCC(mapping, value) }];
+    });
+};
+
+// Adds a mapping, dropping any older binding of the same controller or the same parameter
+export const addCCMapping = (mappings: MidiCCMapping[], mapping: MidiCCMapping): MidiCCMapping[] => {
+    const key = getTargetKey(mapping.target);
+    return [
+        ...mappings.filter(m => !(m.channel === mapping.channel && m.controller === mapping.controller) && getTargetKey(m.target) !== key),
+        mapping,
+    ];
+};
+
+export const describeTarget = (target: MidiCCTarget, trackName?: string): string =>
+    target.scope === 'fx' ? `FX ${target.path}` : `${trackName ?? `T${target.trackId + 1}`} ${target.path}`;
@@ -0,0 +1,71 @@
+import { Track, Pattern, PatternTrack, ChainEntry } from './types';
+import { PATTERN_BANKS, PATTERNS_PER_BANK, PATTERN_COUNT, createEmptySteps } from './constants';
+
+// --- Pattern bank helpers ---
+// `Track.steps` / `Track.patternLength` always hold the working copy of the current pattern;
+// the bank holds every other pattern and is refreshed from the tracks when switching away.
+// Pattern-wide settings such as `transpose` have no working copy and always live in the bank.
+
+export const patternName = (index: number): string => {
+    const bank = PATTERN_BANKS[Math.floor(index / PATTERNS_PER_BANK)] ?? '?';
+    const slot = (index % PATTERNS_PER_BANK) + 1;
+    return `${bank}${String(slot).padStart(2, '0')}`;
+};
+
+const createEmptyPatternTrack = (): PatternTrack => ({ steps: createEmptySteps(), patternLength: 16 });
+
+export const createEmptyPattern = (trackCount: number): Pattern => ({
+    tracks: Array(trackCount).fill(null).map(createEmptyPatternTrack),
+    transpose: 0,
+});
+
+export const capturePattern = (tracks: Track[], transpose = 0): Pattern => ({
+    tracks: tracks.map(track => ({ steps: track.steps, patternLength: track.patternLength })),
+    transpose,
+});
+
+export const applyPattern = (tracks: Track[], pattern: Pattern | undefined): Track[] =>
+    tracks.map(track => {
+        const patternTrack = pattern?.tracks[track.id] ?? createEmptyPatternTrack();
+        return { ...track, steps: patternTrack.steps, patternLength: patternTrack.patternLength };
+    });
+
+export const createPatternBank = (tracks: Track[]): Pattern[] =>
+    Array(PATTERN_COUNT).fill(null).map((_, i) => i === 0 ? capturePattern(tracks) : createEmptyPattern(tracks.length));
+
+export const storePattern = (bank: Pattern[], index: number, tracks: Track[]): Pattern[] => {
+    const newBank = [...bank];
+    newBank[index] = capturePattern(tracks, bank[index]?.transpose);
+    return newBank;
+};
+
+export const setPatternTranspose = (bank: Pattern[], index: number, transpose: number): Pattern[] =>
+    bank.map((pattern, i) => i === index ? { ...pattern, transpose } : pattern);
+
+// Tracks as they should sound for `index`: the live working copy for the current pattern,
+// the stored bank content for any other.
+export const getPatternTracks = (tracks: Track[], bank: Pattern[], currentIndex: number, index: number): Track[] =>
+    index === currentIndex ? tracks : applyPattern(tracks, bank[index]);
+
+export const isPatternEmpty = (pattern: Pattern | undefined): boolean =>
+    !pattern || pattern.tracks.every(t => t.steps.every(step => !step.active));
+
+// --- Chain / song mode ---
+
+export interface ChainPosition {
+    entryIndex: number;
+    repeat: number;
+}
+
+export const advanceChainPosition = (chain: ChainEntry[], position: ChainPosition | null): ChainPosition => {
+    if (!position || position.entryIndex >= chain.length) return { entryIndex: 0, repeat: 0 };
+    const entry = chain[position.entryIndex];
+    if (position.repeat + 1 < Math.max(1, entry.repeats)) {
+        return { entryIndex: position.entryIndex, repeat: position.repeat + 1 };
+    }
+    return { entryIndex: (position.entryIndex + 1) % chain.length, repeat: 0 };
+};
+
+// Steps in one full pass of the chain, given the length of one pass of each pattern
+export const getChainStepCount = (chain: ChainEntry[], getCycleLength: (patternIndex: number) => number): number =>
+    chain.reduce((steps, entry) => steps + getCycleLength(entry.patternIndex) * Math.max(1, entry.repeats), 0);
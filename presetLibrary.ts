@@ -0,0 +1,267 @@
+import { Track, TrackType, SoundPreset, Kit, KitTrack, GlobalFXParams, AllInstrumentParams, KickParams, HatParams, PolyParams, BassParams, ModalParams, RiftParams, GrainParams, ScreamParams, SampleParams } from './types';
+import { INITIAL_TRACKS, INITIAL_GLOBAL_FX_PARAMS, INITIAL_ENGINE_PARAMS, TRACK_TYPES } from './constants';
+import { mergeWithDefaults, downloadJson } from './projectIO';
+
+// --- Sound presets ---
+// A preset holds the params of one engine and only loads onto a track of that engine.
+// Factory presets are written as changes to the engine's initial sound.
+
+const USER_PRESETS_KEY = 'fm8r-presets';
+const KITS_KEY = 'fm8r-kits';
+const KIT_FORMAT = 'fm8r-kit';
+const KIT_SCHEMA_VERSION = 1;
+export const KIT_FILE_EXTENSION = '.fm8r-kit.json';
+
+type EngineParams = {
+    kick: KickParams;
+    hat: HatParams;
+    poly: PolyParams;
+    bass: BassParams;
+    modal: ModalParams;
+    rift: RiftParams;
+    grain: GrainParams;
+    scream: ScreamParams;
+    sample: SampleParams;
+};
+
+const createId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${Math.floor(Math.random() * 1e6).toString(36)}`;
+
+const getInitialParams = (type: TrackType): AllInstrumentParams | undefined => TRACK_TYPES.includes(type) ? INITIAL_ENGINE_PARAMS[type] : undefined;
+
+const factoryPreset = <T extends TrackType>(type: T, name: string, tags: string[], changes: Partial<EngineParams[T]>): SoundPreset => ({
+    id: `factory-${type}-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+    name,
+    type,
+    tags,
+    params: { ...getInitialParams(type), ...changes } as AllInstrumentParams,
+    isFactory: true,
+});
+
+export const FACTORY_PRESETS: SoundPreset[] = [
+    factoryPreset('kick', 'Deep Sub', ['sub', 'long', 'clean'], {
+        tune: 34, decay: 1.1, punch: 40, saturation: 10, body: 20, tone: 3000, transientAmount: 20, pitchEnvAmount: 40, pitchEnvDecay: 0.08, rumbleAmount: 10,
+    }),
+    factoryPreset('kick', 'Hard Techno', ['distorted', 'punchy', 'rumble'], {
+        tune: 45, decay: 0.6, punch: 95, saturation: 90, body: 80, transientAmount: 80, rumbleAmount: 70, rumbleDecay: 1.2, rumbleTone: 250,
+    }),
+    factoryPreset('kick', '808 Boom', ['808', 'long'], {
+        tune: 38, decay: 1.6, punch: 50, saturation: 25, body: 30, tone: 5000, transientAmount: 30, pitchEnvAmount: 60, pitchEnvDecay: 0.05, rumbleAmount: 0,
+    }),
+    factoryPreset('hat', 'Closed Tick', ['closed', 'short'], { tone: 10000, decay: 0.03, metal: 0.3 }),
+    factoryPreset('hat', 'Open Shimmer', ['open', 'long', 'metallic'], { tone: 7000, decay: 0.35, metal: 0.8 }),
+    factoryPreset('hat', 'Dusty Shaker', ['shaker', 'lofi'], { tone: 5000, decay: 0.09, metal: 0.05, filter: { type: 'lowpass', cutoff: 9000, resonance: 1 } }),
+    factoryPreset('poly', 'Warm Pad', ['pad', 'soft'], {
+        osc1: { waveform: 'sawtooth', octave: 0, detune: -7 },
+        osc2: { waveform: 'sawtooth', octave: 0, detune: 7 },
+        noiseLevel: 0,
+        filter: { type: 'lowpass', cutoff: 1800, resonance: 1 },
+        ampEnv: { attack: 0.6, decay: 1, sustain: 0.7, release: 1.2 },
+        filterEnv: { attack: 0.8, decay: 1, sustain: 0.3, release: 1 },
+        lfo1: { waveform: 'sine', rate: 0.3, depth: 400, destination: 'filterCutoff' },
+    }),
+    factoryPreset('poly', 'Pluck', ['pluck', 'short', 'bright'], {
+        osc1: { waveform: 'square', octave: 0, detune: 0 },
+        osc2: { waveform: 'sawtooth', octave: 1, detune: 5 },
+        oscMix: 30,
+        filter: { type: 'lowpass', cutoff: 2500, resonance: 6 },
+        ampEnv: { attack: 0.001, decay: 0.25, sustain: 0, release: 0.15 },
+        filterEnv: { attack: 0.001, decay: 0.2, sustain: 0, release: 0.1 },
+    }),
+    factoryPreset('poly', 'House Stab', ['stab', 'chord', 'short'], {
+        osc1: { waveform: 'sawtooth', octave: 0, detune: -4 },
+        osc2: { waveform: 'sawtooth', octave: 0, detune: 4 },
+        filter: { type: 'lowpass', cutoff: 3000, resonance: 3 },
+        ampEnv: { attack: 0.005, decay: 0.18, sustain: 0, release: 0.1 },
+        filterEnv: { attack: 0.005, decay: 0.15, sustain: 0, release: 0.1 },
+    }),
+    factoryPreset('bass', 'Acid Squelch', ['acid', 'resonant'], { waveform: 'sawtooth', cutoff: 500, resonance: 18, decay: 0.25, accent: 90 }),
+    factoryPreset('bass', 'Round Sub', ['sub', 'clean'], { waveform: 'sine', cutoff: 300, resonance: 1, decay: 0.5, accent: 20 }),
+    factoryPreset('bass', 'Square Growl', ['square', 'gritty'], { waveform: 'square', cutoff: 1200, resonance: 10, decay: 0.35, accent: 60 }),
+    factoryPreset('modal', 'Glass Bell', ['bell', 'metallic', 'bright'], { structure: 80, brightness: 85, decay: 1.2, damping: 10 }),
+    factoryPreset('modal', 'Wood Marimba', ['mallet', 'wood', 'short'], { structure: 0, brightness: 40, decay: 0.35, damping: 70 }),
+    factoryPreset('modal', 'Steel Drum', ['metallic', 'mallet'], { structure: 55, brightness: 65, decay: 0.7, damping: 35 }),
+    factoryPreset('rift', 'Fold Lead', ['lead', 'aggressive'], { fold: 70, drive: 50, feedback: 20, decay: 0.4, filter: { type: 'lowpass', cutoff: 8000, resonance: 3 } }),
+    factoryPreset('rift', 'Soft Triangle', ['soft', 'clean'], { fold: 5, drive: 0, feedback: 0, decay: 0.3, filter: { type: 'lowpass', cutoff: 3000, resonance: 1 } }),
+    factoryPreset('rift', 'Feedback Noise', ['noise', 'aggressive'], { fold: 90, drive: 80, feedback: 80, decay: 0.6, filter: { type: 'bandpass', cutoff: 2000, resonance: 4 } }),
+    factoryPreset('grain', 'Cloud', ['texture', 'long', 'ambient'], { decay: 1.5, density: 90, spread: 80, grainSize: 70 }),
+    factoryPreset('grain', 'Sparkle', ['texture', 'short', 'bright'], { pitch: 1200, decay: 0.4, density: 40, spread: 10, grainSize: 10 }),
+    factoryPreset('grain', 'Low Drone', ['drone', 'ambient', 'long'], { pitch: -1200, decay: 2, density: 100, spread: 100, grainSize: 100, filter: { type: 'lowpass', cutoff: 4000, resonance: 1 } }),
+    factoryPreset('scream', 'Screech', ['lead', 'harsh'], { decay: 0.5, feedback: 95, damping: 9000 }),
+    factoryPreset('scream', 'Plucked String', ['string', 'pluck'], { decay: 0.8, feedback: 90, damping: 3000 }),
+    factoryPreset('scream', 'Dark Howl', ['dark', 'long'], { pitch: -1200, decay: 1.5, feedback: 97, damping: 1200 }),
+];
+
+// --- Library ---
+
+export const getPresetTags = (presets: SoundPreset[]): string[] => [...new Set(presets.flatMap(p => p.tags))].sort();
+
+// Presets for `type` whose name or a tag contains `query` and that carry `tag`, if given
+export const searchPresets = (presets: SoundPreset[], type: TrackType, query: string, tag: string | null): SoundPreset[] => {
+    const text = query.trim().toLowerCase();
+    return presets.filter(p => p.type === type
+        && (tag === null || p.tags.includes(tag))
+        && (text === '' || p.name.toLowerCase().includes(text) || p.tags.some(t => t.includes(text))));
+};
+
+// Tags are typed as one comma or space separated string
+export const parseTags = (text: string): string[] =>
+    [...new Set(text.split(/[\s,]+/).map(t => t.trim().toLowerCase()).filter(t => t !== ''))];
+
+export const createPreset = (track: Track, name: string, tags: string[]): SoundPreset => ({
+    id: createId('user'),
+    name: name.trim() || track.name,
+    type: track.type,
+    tags,
+    params: track.params,
+    isFactory: false,
+});
+
+export const applyPreset = (track: Track, preset: SoundPreset): Track => {
+    if (preset.type !== track.type) {
+        throw new Error(`"${preset.name}" is a ${preset.type} preset and cannot load onto the ${track.type} track ${track.name}`);
+    }
+    return { ...track, params: preset.params };
+};
+
+// --- Storage ---
+
+// Stored presets are filled in from the engine's initial sound, so presets saved before a param existed still load
+const normalizeUserPreset = (value: any): SoundPreset | null => {
+    const defaults = getInitialParams(value?.type);
+    if (!defaults || typeof value.id !== 'string' || typeof value.name !== 'string') return null;
+    return {
+        id: value.id,
+        name: value.name,
+        type: value.type,
+        tags: Array.isArray(value.tags) ? value.tags.filter((t: unknown) => typeof t === 'string') : [],
+        params: mergeWithDefaults(defaults, value.params),
+        isFactory: false,
+    };
+};
+
+export interface StoredUserPresets {
+    presets: SoundPreset[];
+    unreadable: unknown[]; // entries this build cannot read, such as presets of a newer engine; saved back untouched
+}
+
+// Null when the stored list itself cannot be read, in which case nothing should be saved over it
+export const loadUserPresets = (): StoredUserPresets | null => {
+    try {
+        const data = JSON.parse(localStorage.getItem(USER_PRESETS_KEY) ?? '[]');
+        if (!Array.isArray(data)) throw new Error('Stored presets are not a list');
+        const stored: StoredUserPresets = { presets: [], unreadable: [] };
+        data.forEach(value => {
+            const preset = normalizeUserPreset(value);
+            if (preset) stored.presets.push(preset);
+            else stored.unreadable.push(value);
+        });
+        return stored;
+    } catch (e) {
+        console.error('Could not load user presets', e);
+        return null;
+    }
+};
+
+export const saveUserPresets = (presets: SoundPreset[], unreadable: unknown[]) => {
+    try {
+        localStorage.setItem(USER_PRESETS_KEY, JSON.stringify([...presets, ...unreadable]));
+    } catch (e) {
+        console.error('Could not save user presets', e);
+    }
+};
+
+// --- Kits ---
+// A kit is the sound of every track plus the master effects. Loading one leaves the steps and
+// patterns alone, so the same groove can be heard through different kits.
+
+export const createKit = (name: string, tracks: Track[], globalFxParams: GlobalFXParams): Kit => ({
+    id: createId('kit'),
+    name: name.trim() || 'Kit',
+    tracks: tracks.map(({ type, params, fxSends, volume, defaultNote }) => ({ type, params, fxSends, volume, defaultNote })),
+    globalFxParams,
+});
+
+// Kit tracks load onto the tracks in the same position, switching a track to the kit's engine where
+// they differ; the steps stay either way
+export const applyKit = (tracks: Track[], kit: Kit): Track[] =>
+    tracks.map((track, i) => {
+        const kitTrack = kit.tracks[i];
+        if (!kitTrack) return track;
+        const { type, params, fxSends, volume, defaultNote } = kitTrack;
+        return { ...track, type, params, fxSends, volume, defaultNote };
+    });
+
+// Tracks without an initial track of their engine (a sample track) fall back to the first track's mix settings
+const normalizeKitTrack = (value: any): KitTrack | null => {
+    const params = getInitialParams(value?.type);
+    if (!params) return null;
+    const defaults = INITIAL_TRACKS.find(t => t.type === value.type) ?? INITIAL_TRACKS[0];
+    return {
+        type: value.type,
+        params: mergeWithDefaults(params, value.params),
+        fxSends: mergeWithDefaults(defaults.fxSends, value.fxSends),
+        volume: typeof value.volume === 'number' ? Math.max(0, Math.min(2, value.volume)) : defaults.volume,
+        defaultNote: typeof value.defaultNote === 'string' ? value.defaultNote : defaults.defaultNote,
+    };
+};
+
+const normalizeKit = (value: any): Kit => {
+    if (!Array.isArray(value?.tracks)) throw new Error('Kit has no tracks');
+    const tracks = value.tracks.map(normalizeKitTrack);
+    if (tracks.some((t: KitTrack | null) => t === null)) throw new Error('Kit has a track of an unknown type');
+    return {
+        id: typeof value.id === 'string' ? value.id : createId('kit'),
+        name: typeof value.name === 'string' ? value.name : 'Kit',
+        tracks,
+        globalFxParams: mergeWithDefaults<GlobalFXParams>(INITIAL_GLOBAL_FX_PARAMS, value.globalFxParams),
+    };
+};
+
+export const downloadKit = (kit: Kit) => {
+    const file = { format: KIT_FORMAT, version: KIT_SCHEMA_VERSION, ...kit };
+    downloadJson(JSON.stringify(file), `${kit.name.replace(/[^\w-]+/g, '_') || 'kit'}${KIT_FILE_EXTENSION}`);
+};
+
+// An imported kit gets a new id, so importing the same file twice gives two kits
+export const readKitFile = async (file: File): Promise<Kit> => {
+    const data = JSON.parse(await file.text());
+    if (data?.format !== KIT_FORMAT) throw new Error('File is not a kit');
+    if (typeof data.version !== 'number' || data.version > KIT_SCHEMA_VERSION) {
+        throw new Error(`Kit was saved with a newer schema (v${data.version}); this build supports up to v${KIT_SCHEMA_VERSION}`);
+    }
+    return { ...normalizeKit(data), id: createId('kit') };
+};
+
+export interface StoredKits {
+    kits: Kit[];
+    unreadable: unknown[]; // entries this build cannot read, such as kits from a newer build; saved back untouched
+}
+
+// Null when the stored list itself cannot be read, in which case nothing should be saved over it
+export const loadKits = (): StoredKits | null => {
+    try {
+        const data = JSON.parse(localStorage.getItem(KITS_KEY) ?? '[]');
+        if (!Array.isArray(data)) throw new Error('Stored kits are not a list');
+        const stored: StoredKits = { kits: [], unreadable: [] };
+        data.forEach(value => {
+            try {
+                stored.kits.push(normalizeKit(value));
+            } catch (e) {
+                console.error('Skipping a kit that cannot be read', e);
+                stored.unreadable.push(value);
+            }
+        });
+        return stored;
+    } catch (e) {
+        console.error('Could not load kits', e);
+        return null;
+    }
+};
+
+export const saveKits = (kits: Kit[], unreadable: unknown[]) => {
+    try {
+        localStorage.setItem(KITS_KEY, JSON.stringify([...kits, ...unreadable]));
+    } catch (e) {
+        console.error('Could not save kits', e);
+    }
+};
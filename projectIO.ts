@@ -0,0 +1,343 @@
+import { Track, StepState, PLocks, GlobalFXParams, ProjectState, Pattern, PatternTrack, ChainEntry, MidiNoteMapEntry, MidiCCMapping, MidiCCTarget, TrackMidiOut, StepChord, ProjectScale, RandomizerSettings } from './types';
+import { INITIAL_TRACKS, INITIAL_GLOBAL_FX_PARAMS, PATTERN_COUNT, DEFAULT_MIDI_NOTE_MAP, GROOVE_TEMPLATES, TRIG_CONDITIONS, CHORD_TYPES, MAX_POLY_VOICES, SCALES, DEFAULT_SCALE, DEFAULT_RANDOMIZER_SETTINGS, RANDOM_RULES, TRACK_TYPES, INITIAL_ENGINE_PARAMS } from './constants';
+import { createPatternBank, createEmptyPattern, applyPattern, storePattern } from './patternBank';
+
+// --- Project (de)serialization with schema migrations ---
+
+export const PROJECT_SCHEMA_VERSION = 2;
+export const PROJECT_FILE_EXTENSION = '.fm8r.json';
+
+const PROJECT_FORMAT = 'fm8r-project';
+const AUTOSAVE_KEY = 'fm8r-autosave';
+
+export interface ProjectFile extends ProjectState {
+    format: typeof PROJECT_FORMAT;
+    version: number;
+    savedAt: string;
+}
+
+type Migrator = (data: any) => any;
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Older poly patches stored an `envAmount` on the filter instead of deriving the
+// filter envelope depth from `filterEnv.attack`. Fold it back into `filterEnv`.
+const migrateLegacyPolyFilter = (polyParams: Record<string, any>) => {
+    const filter = polyParams.filter;
+    if (!isPlainObject(filter) || !('envAmount' in filter)) return polyParams;
+    const { envAmount, ...restFilter } = filter;
+    const migrated: Record<string, any> = { ...polyParams, filter: restFilter };
+    const filterEnv = isPlainObject(polyParams.filterEnv) ? polyParams.filterEnv : null;
+    if (envAmount === 0) {
+        migrated.filterEnv = { ...(filterEnv || {}), attack: 0 };
+    } else if (filterEnv && !(filterEnv.attack > 0)) {
+        migrated.filterEnv = { ...filterEnv, attack: 0.001 };
+    }
+    return migrated;
+};
+
+const MIGRATORS: Record<number, Migrator> = {
+    // 0 -> 1: unversioned dumps of the raw App state (or just the track array)
+    0: (data) => {
+        const source = Array.isArray(data) ? { tracks: data } : data;
+        const tracks = Array.isArray(source.tracks) ? source.tracks.map((track: any) => {
+            if (!isPlainObject(track) || track.type !== 'poly') return track;
+            return {
+                ...track,
+                params: isPlainObject(track.params) ? migrateLegacyPolyFilter(track.params) : track.params,
+                steps: Array.isArray(track.steps) ? track.steps.map((step: any) =>
+                    isPlainObject(step?.pLocks?.polyParams)
+                        ? { ...step, pLocks: { ...step.pLocks, polyParams: migrateLegacyPolyFilter(step.pLocks.polyParams) } }
+                        : step
+                ) : track.steps,
+            };
+        }) : undefined;
+        return {
+            bpm: source.bpm,
+            tracks,
+            globalFxParams: source.globalFxParams ?? source.fxParams,
+            mutedTracks: source.mutedTracks,
+            soloedTrackId: source.soloedTrackId,
+        };
+    },
+    // 1 -> 2: the track steps become pattern A01 of a new pattern bank
+    1: (data) => ({
+        ...data,
+        patterns: Array.isArray(data.tracks)
+            ? [{ tracks: data.tracks.map((t: any) => ({ steps: t?.steps, patternLength: t?.patternLength })) }]
+            : [],
+        currentPatternIndex: 0,
+        chain: [],
+        songMode: false,
+    }),
+};
+
+// Fills anything missing or mistyped in `value` from `defaults`, recursing into nested objects.
+export const mergeWithDefaults = <T>(defaults: T, value: unknown): T => {
+    if (isPlainObject(defaults)) {
+        if (!isPlainObject(value)) return defaults;
+        const merged: Record<string, any> = { ...value };
+        for (const key of Object.keys(defaults)) {
+            merged[key] = mergeWithDefaults((defaults as Record<string, any>)[key], value[key]);
+        }
+        return merged as T;
+    }
+    if (defaults === null) return (value ?? null) as T;
+    return typeof value === typeof defaults ? value as T : defaults;
+};
+
+const normalizeChord = (value: any): StepChord | undefined => {
+    if (!isPlainObject(value) || !CHORD_TYPES.some(c => c.type === value.type)) return undefined;
+    return { type: value.type, inversion: isMidiValue(value.inversion, 4) ? value.inversion : 0 };
+};
+
+const normalizeTranspose = (value: any): number =>
+    typeof value === 'number' ? Math.max(-24, Math.min(24, Math.round(value))) : 0;
+
+const normalizeScale = (value: any): ProjectScale => {
+    if (!isPlainObject(value)) return DEFAULT_SCALE;
+    const customIntervals = Array.isArray(value.customIntervals)
+        ? [...new Set<number>(value.customIntervals.filter((i: any) => Number.isInteger(i) && i >= 0 && i < 12))].sort((a, b) => a - b)
+        : [];
+    return {
+        root: Number.isInteger(value.root) && value.root >= 0 && value.root < 12 ? value.root : DEFAULT_SCALE.root,
+        scale: value.scale === 'custom' || SCALES.some(s => s.id === value.scale) ? value.scale : DEFAULT_SCALE.scale,
+        customIntervals: customIntervals.length > 0 ? customIntervals : DEFAULT_SCALE.customIntervals,
+    };
+};
+
+const normalizeRandomizer = (value: any): RandomizerSettings => {
+    const settings = mergeWithDefaults<RandomizerSettings>(DEFAULT_RANDOMIZER_SETTINGS, value);
+    const unit = (n: number) => Math.max(0, Math.min(1, n));
+    return {
+        seed: Number.isInteger(settings.seed) && settings.seed >= 0 ? settings.seed : DEFAULT_RANDOMIZER_SETTINGS.seed,
+        density: unit(settings.density),
+        velocityMin: unit(settings.velocityMin),
+        velocityMax: unit(settings.velocityMax),
+        noteMin: isMidiValue(settings.noteMin, 127) ? settings.noteMin : DEFAULT_RANDOMIZER_SETTINGS.noteMin,
+        noteMax: isMidiValue(settings.noteMax, 127) ? settings.noteMax : DEFAULT_RANDOMIZER_SETTINGS.noteMax,
+        mutateAmount: unit(settings.mutateAmount),
+    };
+};
+
+const normalizeStep = (step: any): StepState => ({
+    active: step?.active === true,
+    pLocks: isPlainObject(step?.pLocks) && Object.keys(step.pLocks).length > 0 ? step.pLocks as PLocks : null,
+    note: typeof step?.note === 'string' ? step.note : null,
+    velocity: typeof step?.velocity === 'number' ? Math.max(0, Math.min(1, step.velocity)) : 1.0,
+    microTiming: typeof step?.microTiming === 'number' ? Math.max(-0.5, Math.min(0.5, step.microTiming)) : 0,
+    probability: typeof step?.probability === 'number' ? Math.max(0, Math.min(100, Math.round(step.probability))) : 100,
+    condition: TRIG_CONDITIONS.includes(step?.condition) ? step.condition : null,
+    retrigCount: typeof step?.retrigCount === 'number' ? Math.max(1, Math.min(8, Math.round(step.retrigCount))) : 1,
+    retrigRate: typeof step?.retrigRate === 'number' ? Math.max(1, Math.min(8, Math.round(step.retrigRate))) : 4,
+    retrigVelocityRamp: typeof step?.retrigVelocityRamp === 'number' ? Math.max(-1, Math.min(1, step.retrigVelocityRamp)) : 0,
+    gateLength: typeof step?.gateLength === 'number' ? Math.max(0.05, Math.min(1, step.gateLength)) : 0.5,
+    slide: step?.slide === true,
+    accent: step?.accent === true,
+    chord: normalizeChord(step?.chord) ?? null,
+    paramSlide: step?.paramSlide === true,
+});
+
+const normalizePatternTrack = (value: any, minSteps: number): PatternTrack => {
+    const steps = Array.isArray(value?.steps) ? value.steps.map(normalizeStep) : [];
+    while (steps.length < minSteps) steps.push(normalizeStep(null));
+    const patternLength = typeof value?.patternLength === 'number'
+        ? Math.max(1, Math.min(steps.length, Math.round(value.patternLength)))
+        : minSteps;
+    return { steps, patternLength };
+};
+
+const normalizePattern = (value: any, tracks: Track[]): Pattern => {
+    if (!isPlainObject(value) || !Array.isArray(value.tracks)) return createEmptyPattern(tracks.length);
+    return {
+        tracks: tracks.map(track => normalizePatternTrack(value.tracks[track.id], track.steps.length)),
+        transpose: normalizeTranspose(value.transpose),
+    };
+};
+
+const normalizeChainEntry = (value: any): ChainEntry | null => {
+    if (!isPlainObject(value) || typeof value.patternIndex !== 'number') return null;
+    if (value.patternIndex < 0 || value.patternIndex >= PATTERN_COUNT) return null;
+    return {
+        patternIndex: Math.floor(value.patternIndex),
+        repeats: typeof value.repeats === 'number' ? Math.max(1, Math.min(64, Math.floor(value.repeats))) : 1,
+    };
+};
+
+const isMidiValue = (value: unknown, max: number): value is number =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= max;
+
+const normalizeMidiNoteMap = (value: any, trackIds: Set<number>): MidiNoteMapEntry[] => {
+    if (!Array.isArray(value)) return DEFAULT_MIDI_NOTE_MAP;
+    return value
+        .filter(entry => isPlainObject(entry) && trackIds.has(entry.trackId))
+        .map(entry => ({
+            trackId: entry.trackId,
+            channel: isMidiValue(entry.channel, 15) ? entry.channel : null,
+            note: isMidiValue(entry.note, 127) ? entry.note : null,
+        }));
+};
+
+const normalizeCCTarget = (value: any, trackIds: Set<number>): MidiCCTarget | null => {
+    if (!isPlainObject(value) || typeof value.path !== 'string') return null;
+    if (value.scope === 'fx') return { scope: 'fx', path: value.path };
+    if ((value.scope === 'track' || value.scope === 'mixer') && trackIds.has(value.trackId)) {
+        return { scope: value.scope, trackId: value.trackId, path: value.path };
+    }
+    return null;
+};
+
+const normalizeCCMappings = (value: any, trackIds: Set<number>): MidiCCMapping[] => {
+    if (!Array.isArray(value)) return [];
+    return value.flatMap((mapping): MidiCCMapping[] => {
+        const target = normalizeCCTarget(mapping?.target, trackIds);
+        if (!target || !isMidiValue(mapping.channel, 15) || !isMidiValue(mapping.controller, 127)) return [];
+        if (typeof mapping.min !== 'number' || typeof mapping.max !== 'number') return [];
+        return [{
+            channel: mapping.channel,
+            controller: mapping.controller,
+            target,
+            min: mapping.min,
+            max: mapping.max,
+            step: typeof mapping.step === 'number' ? mapping.step : 1,
+        }];
+    });
+};
+
+const normalizeTrackMidiOut = (value: any): TrackMidiOut | undefined => {
+    if (!isPlainObject(value)) return undefined;
+    return {
+        outputId: typeof value.outputId === 'string' ? value.outputId : null,
+        channel: isMidiValue(value.channel, 15) ? value.channel : 0,
+        gate: typeof value.gate === 'number' && value.gate > 0 ? value.gate : 0.5,
+        internal: typeof value.internal === 'boolean' ? value.internal : true,
+    };
+};
+
+// A track may have been switched to another engine, so its params are filled in from that engine's sound
+const normalizeTrack = (defaults: Track, value: any): Track => {
+    if (!isPlainObject(value) || !TRACK_TYPES.includes(value.type)) return defaults;
+    const { steps, patternLength } = normalizePatternTrack(value, defaults.steps.length);
+    return {
+        ...defaults,
+        name: typeof value.name === 'string' ? value.name : defaults.name,
+        type: value.type,
+        params: mergeWithDefaults(INITIAL_ENGINE_PARAMS[value.type as Track['type']], value.params),
+        fxSends: mergeWithDefaults(defaults.fxSends, value.fxSends),
+        volume: typeof value.volume === 'number' ? value.volume : defaults.volume,
+        patternLength,
+        defaultNote: typeof value.defaultNote === 'string' ? value.defaultNote : defaults.defaultNote,
+        steps,
+        midiOut: normalizeTrackMidiOut(value.midiOut),
+        grooveId: GROOVE_TEMPLATES.some(g => g.id === value.grooveId) ? value.grooveId : undefined,
+        chordMemory: normalizeChord(value.chordMemory),
+        voiceLimit: typeof value.voiceLimit === 'number' ? Math.max(1, Math.min(MAX_POLY_VOICES, Math.round(value.voiceLimit))) : undefined,
+        snapToScale: value.snapToScale === true ? true : undefined,
+        randomRules: Array.isArray(value.randomRules)
+            ? value.randomRules.filter((rule: any) => RANDOM_RULES.some(r => r.rule === rule))
+            : defaults.randomRules,
+    };
+};
+
+const normalizeProject = (data: any): ProjectState => {
+    const tracks: any[] = Array.isArray(data.tracks) ? data.tracks : [];
+    const trackIds = new Set(INITIAL_TRACKS.map(t => t.id));
+    const normalizedTracks = INITIAL_TRACKS.map(defaults => normalizeTrack(defaults, tracks.find(t => t?.id === defaults.id)));
+    const patterns = createPatternBank(normalizedTracks).map((empty, i) =>
+        Array.isArray(data.patterns) && data.patterns[i] ? normalizePattern(data.patterns[i], normalizedTracks) : empty
+    );
+    const currentPatternIndex = typeof data.currentPatternIndex === 'number' && data.currentPatternIndex >= 0 && data.currentPatternIndex < PATTERN_COUNT
+        ? Math.floor(data.currentPatternIndex)
+        : 0;
+    return {
+        bpm: typeof data.bpm === 'number' ? Math.max(30, Math.min(250, data.bpm)) : 120,
+        swing: typeof data.swing === 'number' ? Math.max(50, Math.min(75, data.swing)) : 50,
+        seed: typeof data.seed === 'number' && Number.isInteger(data.seed) && data.seed >= 0 ? data.seed : 1,
+        scale: normalizeScale(data.scale),
+        transpose: normalizeTranspose(data.transpose),
+        randomizer: normalizeRandomizer(data.randomizer),
+        // The tracks carry the working copy of the current pattern, so the bank entry wins
+        tracks: applyPattern(normalizedTracks, patterns[currentPatternIndex]),
+        patterns,
+        currentPatternIndex,
+        chain: Array.isArray(data.chain) ? data.chain.map(normalizeChainEntry).filter((e: ChainEntry | null): e is ChainEntry => e !== null) : [],
+        songMode: data.songMode === true,
+        midiNoteMap: normalizeMidiNoteMap(data.midiNoteMap, trackIds),
+        midiCCMappings: normalizeCCMappings(data.midiCCMappings, trackIds),
+        globalFxParams: mergeWithDefaults<GlobalFXParams>(INITIAL_GLOBAL_FX_PARAMS, data.globalFxParams),
+        mutedTracks: Array.isArray(data.mutedTracks) ? data.mutedTracks.filter((id: any) => trackIds.has(id)) : [],
+        soloedTrackId: trackIds.has(data.soloedTrackId) ? data.soloedTrackId : null,
+    };
+};
+
+export const serializeProject = (project: ProjectState): string => {
+    const file: ProjectFile = {
+        format: PROJECT_FORMAT,
+        version: PROJECT_SCHEMA_VERSION,
+        savedAt: new Date().toISOString(),
+        ...project,
+        patterns: storePattern(project.patterns, project.currentPatternIndex, project.tracks),
+    };
+    return JSON.stringify(file);
+};
+
+export const deserializeProject = (json: string): ProjectState => {
+    let data: any = JSON.parse(json);
+    if (Array.isArray(data)) data = { tracks: data };
+    if (!isPlainObject(data)) throw new Error('Project file is not a JSON object');
+    if (data.format !== undefined && data.format !== PROJECT_FORMAT) {
+        throw new Error(`Unknown project format: ${data.format}`);
+    }
+
+    let version = typeof data.version === 'number' ? data.version : 0;
+    if (version > PROJECT_SCHEMA_VERSION) {
+        throw new Error(`Project was saved with a newer schema (v${version}); this build supports up to v${PROJECT_SCHEMA_VERSION}`);
+    }
+    while (version < PROJECT_SCHEMA_VERSION) {
+        const migrate = MIGRATORS[version];
+        if (!migrate) throw new Error(`No migration from project schema v${version}`);
+        data = migrate(data);
+        version++;
+    }
+    return normalizeProject(data);
+};
+
+// --- Import / Export ---
+
+export const downloadJson = (json: string, fileName: string) => {
+    const blob = new Blob([json], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+};
+
+export const downloadProject = (project: ProjectState, name = 'fm8r-project') =>
+    downloadJson(serializeProject(project), `${name}${PROJECT_FILE_EXTENSION}`);
+
+export const readProjectFile = async (file: File): Promise<ProjectState> => deserializeProject(await file.text());
+
+// --- Autosave ---
+
+export const saveProjectToStorage = (project: ProjectState) => {
+    try {
+        localStorage.setItem(AUTOSAVE_KEY, serializeProject(project));
+    } catch (e) {
+        console.error('Could not autosave project', e);
+    }
+};
+
+export const loadProjectFromStorage = (): ProjectState | null => {
+    try {
+        const json = localStorage.getItem(AUTOSAVE_KEY);
+        return json ? deserializeProject(json) : null;
+    } catch (e) {
+        console.error('Could not restore autosaved project', e);
+        return null;
+    }
+};
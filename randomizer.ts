@@ -0,0 +1,67 @@
+import { Track, StepState, RandomRule, RandomizerSettings, ProjectScale } from './types';
+import { MELODIC_TRACK_TYPES, MAX_PATTERN_LENGTH, createEmptySteps } from './constants';
+import { createSeededRandom, getScaleNotes, midiToNoteName } from './utils';
+
+// --- Pattern randomizer ---
+// Every run is seeded, so the same seed, settings and rules always write the same steps.
+// Each track mixes its id into the seed so RANDOM ALL does not give every track the same rhythm.
+
+type StepRule = 'on' | 'off' | 'free';
+
+// "Never" rules win over "always" rules, so DOWN + NOT 1 leaves step 1 empty
+const getStepRule = (rules: RandomRule[], index: number): StepRule => {
+    const isDownbeat = index % 4 === 0;
+    const isOffbeat = index % 4 === 2;
+    if (rules.includes('notFirst') && index === 0) return 'off';
+    if (rules.includes('noDownbeats') && isDownbeat) return 'off';
+    if ((rules.includes('downbeats') && isDownbeat) || (rules.includes('offbeats') && isOffbeat)) return 'on';
+    return 'free';
+};
+
+const getTrackRandom = (track: Track, settings: RandomizerSettings) => createSeededRandom(settings.seed * 31 + track.id);
+
+const getNotePool = (settings: RandomizerSettings, scale: ProjectScale): string[] =>
+    getScaleNotes(scale, Math.min(settings.noteMin, settings.noteMax), Math.max(settings.noteMin, settings.noteMax)).map(midiToNoteName);
+
+// Only `active`, `velocity` and, on melodic tracks, `note` are rolled; everything else on the step is kept
+const randomizeStep = (step: StepState, index: number, track: Track, settings: RandomizerSettings, notes: string[], random: () => number): StepState => {
+    const rule = getStepRule(track.randomRules ?? [], index);
+    const active = rule === 'on' || (rule === 'free' && random() < settings.density);
+    if (!active) return { ...step, active: false };
+    const velocity = rule === 'on' ? settings.velocityMax : settings.velocityMin + random() * (settings.velocityMax - settings.velocityMin);
+    const note = MELODIC_TRACK_TYPES.includes(track.type) && notes.length > 0 ? notes[Math.floor(random() * notes.length)] : step.note;
+    return { ...step, active: true, velocity, note };
+};
+
+// Between three quarters of and the full power of two at or above the track's length (12 to 16 for a
+// 16-step track, 48 to 64 for 64), so re-rolling never drifts the length away from where it started
+const getVariedLength = (patternLength: number, random: () => number): number => {
+    const full = Math.min(MAX_PATTERN_LENGTH, 2 ** Math.ceil(Math.log2(Math.max(1, patternLength))));
+    const shortest = Math.max(1, Math.round(full * 0.75));
+    return shortest + Math.floor(random() * (full - shortest + 1));
+};
+
+// A fresh pattern for `track`; steps past the pattern length are cleared
+export const randomizeTrack = (track: Track, settings: RandomizerSettings, scale: ProjectScale): Track => {
+    const random = getTrackRandom(track, settings);
+    const notes = getNotePool(settings, scale);
+    const patternLength = track.randomRules?.includes('varyLength') ? getVariedLength(track.patternLength, random) : track.patternLength;
+    const emptySteps = createEmptySteps();
+    const steps = track.steps.map((_, i) => i < patternLength ? randomizeStep(emptySteps[i], i, track, settings, notes, random) : emptySteps[i]);
+    return { ...track, steps, patternLength };
+};
+
+// Re-rolls `mutateAmount` of the steps within the pattern length and leaves the rest untouched
+export const mutateTrack = (track: Track, settings: RandomizerSettings, scale: ProjectScale): Track => {
+    const random = getTrackRandom(track, settings);
+    const notes = getNotePool(settings, scale);
+    const count = Math.round(settings.mutateAmount * track.patternLength);
+    const indexes = Array.from({ length: track.patternLength }, (_, i) => i);
+    for (let i = 0; i < count; i++) {
+        const j = i + Math.floor(random() * (indexes.length - i));
+        [indexes[i], indexes[j]] = [indexes[j], indexes[i]];
+    }
+    const chosen = new Set(indexes.slice(0, count));
+    const steps = track.steps.map((step, i) => chosen.has(i) ? randomizeStep(step, i, track, settings, notes, random) : step);
+    return { ...track, steps };
+};
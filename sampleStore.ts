@@ -0,0 +1,135 @@
+import { SampleInfo } from './types';
+import { hashBytes } from './utils';
+import { decodeAudioFile, DecodedAudio } from './wavUtils';
+
+// --- Sample library ---
+// Imported files are kept whole in IndexedDB, next to a small description used to list them,
+// so the list loads without reading any audio.
+
+const DB_NAME = 'fm8r-samples';
+const DB_VERSION = 1;
+const INFO_STORE = 'info';
+const DATA_STORE = 'data';
+const PEAK_COUNT = 64;
+
+export const SAMPLE_FILE_ACCEPT = '.wav,.wave,.aif,.aiff,.aifc,.flac,audio/*';
+
+export interface DecodedSample {
+    buffer: AudioBuffer;
+    loop: SampleInfo['loop'];
+    cues: number[];
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    database ??= new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(INFO_STORE, { keyPath: 'id' });
+            request.result.createObjectStore(DATA_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            database = null;
+            reject(request.error);
+        };
+    });
+    return database;
+};
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const whenDone = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+});
+
+// WAV and AIFF are read by wavUtils, which keeps their loop points and markers; anything else,
+// or a WAV encoding it does not read, goes to the browser's decoder
+export const decodeSampleFile = async (data: ArrayBuffer, context: BaseAudioContext): Promise<DecodedSample> => {
+    let decoded: DecodedAudio;
+    try {
+        decoded = decodeAudioFile(data);
+    } catch {
+        return { buffer: await context.decodeAudioData(data), loop: null, cues: [] };
+    }
+    const { sampleRate, channels, loops, cues } = decoded;
+    const buffer = context.createBuffer(channels.length, Math.max(1, channels[0].length), sampleRate);
+    channels.forEach((channel, i) => buffer.copyToChannel(channel, i));
+    const loop = loops.find(l => l.end <= channels[0].length);
+    return {
+        buffer,
+        loop: loop ? { start: loop.start / sampleRate, end: loop.end / sampleRate } : null,
+        cues: cues.map(cue => cue.position / sampleRate),
+    };
+};
+
+// Loudest level in each of `count` slices of the buffer, across all channels
+export const getWaveformPeaks = (buffer: AudioBuffer, count = PEAK_COUNT): number[] => {
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+    const sliceLength = Math.max(1, Math.floor(buffer.length / count));
+    return Array.from({ length: count }, (_, slice) => {
+        let peak = 0;
+        const end = Math.min(buffer.length, (slice + 1) * sliceLength);
+        for (let i = slice * sliceLength; i < end; i++) {
+            for (const data of channels) peak = Math.max(peak, Math.abs(data[i]));
+        }
+        return Math.min(1, peak);
+    });
+};
+
+export const loadSampleInfos = async (): Promise<SampleInfo[]> => {
+    const db = await openDatabase();
+    const infos = await toPromise<SampleInfo[]>(db.transaction(INFO_STORE).objectStore(INFO_STORE).getAll());
+    // Samples stored before loop points were read have none
+    return infos.map(info => ({ loop: null, cues: [], ...info })).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const loadSampleData = async (id: string): Promise<ArrayBuffer | undefined> => {
+    const db = await openDatabase();
+    return toPromise<ArrayBuffer | undefined>(db.transaction(DATA_STORE).objectStore(DATA_STORE).get(id));
+};
+
+// Decodes and stores the file. The same file imported again replaces its entry instead of adding a second one.
+export const importSampleFile = async (file: File, decode: (data: ArrayBuffer) => Promise<DecodedSample>): Promise<{ info: SampleInfo; sample: DecodedSample }> => {
+    const data = await file.arrayBuffer();
+    const id = await hashBytes(data);
+    let sample: DecodedSample;
+    try {
+        // Decoding detaches the bytes it is given, and the stored copy needs them
+        sample = await decode(data.slice(0));
+    } catch {
+        throw new Error(`${file.name} is not an audio format this browser can decode`);
+    }
+    const { buffer, loop, cues } = sample;
+    const info: SampleInfo = {
+        id,
+        name: file.name,
+        duration: buffer.duration,
+        sampleRate: buffer.sampleRate,
+        channels: buffer.numberOfChannels,
+        peaks: getWaveformPeaks(buffer),
+        loop,
+        cues,
+        addedAt: Date.now(),
+    };
+    const db = await openDatabase();
+    const transaction = db.transaction([INFO_STORE, DATA_STORE], 'readwrite');
+    transaction.objectStore(INFO_STORE).put(info);
+    transaction.objectStore(DATA_STORE).put(data, id);
+    await whenDone(transaction);
+    return { info, sample };
+};
+
+export const deleteSample = async (id: string) => {
+    const db = await openDatabase();
+    const transaction = db.transaction([INFO_STORE, DATA_STORE], 'readwrite');
+    transaction.objectStore(INFO_STORE).delete(id);
+    transaction.objectStore(DATA_STORE).delete(id);
+    await whenDone(transaction);
+};
@@ -0,0 +1,306 @@
+import { Track, StepState, NoteArticulation, ArpParams, ArpMode, PLocks, ProjectScale, ParamSlide } from './types';
+import { GROOVE_TEMPLATES, MAX_POLY_VOICES, MELODIC_TRACK_TYPES } from './constants';
+import { createSeededRandom, getChordNotes, noteNameToMidi, midiToNoteName, snapToScale, transposeInScale } from './utils';
+
+// --- Step scheduler ---
+// Shared by live playback and the offline WAV render so both place every step the same way.
+// It counts absolute steps and keeps one position per track, so each track wraps at its own
+// `patternLength` independently of the others and of the bar.
+
+export const STEPS_PER_BAR = 16;
+
+export const getStepDuration = (bpm: number): number => 60.0 / bpm / 4;
+
+// One pass of a pattern lasts as long as its longest track; pattern changes happen at its end
+export const getPatternCycleLength = (tracks: { patternLength: number }[]): number =>
+    Math.max(1, ...tracks.map(t => t.patternLength));
+
+// Global swing (50-75%) delays every second 16th of the bar grid, like the track groove templates
+export const getSwingOffset = (tick: number, swing: number): number =>
+    tick % 2 === 1 ? (swing / 50) - 1 : 0;
+
+export interface StepOptions {
+    swing: number;
+    fill: boolean;
+    scale: ProjectScale;
+    transpose: number; // scale degrees, project plus pattern
+}
+
+export interface StepTrig {
+    track: Track;
+    stepIndex: number;
+    step: StepState;
+    notes: string[]; // one note, or a chord cut to the track's voice limit
+    // Hit time and velocity after swing, the track's groove, micro-timing and ratchets
+    time: number;
+    velocity: number;
+    articulation: NoteArticulation;
+}
+
+// Velocity scale of ratchet hit `index`: a positive ramp fades in to full velocity, a negative one fades out
+export const getRetrigVelocityScale = (index: number, count: number, ramp: number): number => {
+    const t = count > 1 ? index / (count - 1) : 0;
+    return ramp >= 0 ? (1 - ramp) + ramp * t : 1 + ramp * t;
+};
+
+export const getStepNotes = (track: Track, step: StepState): string[] => {
+    const root = step.note || track.defaultNote;
+    const chord = step.chord ?? track.chordMemory;
+    return chord ? getChordNotes(root, chord).slice(0, track.voiceLimit ?? MAX_POLY_VOICES) : [root];
+};
+
+// Snaps a melodic track's note to the scale if the track asks for it, then transposes it in key
+export const applyScale = (note: string, track: Track, scale: ProjectScale, transpose: number): string => {
+    if (!MELODIC_TRACK_TYPES.includes(track.type)) return note;
+    const midi = noteNameToMidi(note);
+    const snapped = track.snapToScale ? snapToScale(midi, scale) : midi;
+    return midiToNoteName(Math.max(0, Math.min(127, transposeInScale(snapped, transpose, scale))));
+};
+
+// --- Arpeggiator ---
+
+// The track's arp settings with the step's p-locks applied; undefined for tracks without an arp
+const getArpParams = (track: Track, step: StepState): ArpParams | undefined => {
+    const base = (track.params as { arp?: ArpParams }).arp;
+    const locked = (step.pLocks?.[`${track.type}Params` as keyof PLocks] as { arp?: Partial<ArpParams> } | undefined)?.arp;
+    return base ? { ...base, ...locked } : undefined;
+};
+
+// An arpeggiated step runs until the track's next active step
+const getHoldSteps = (track: Track, stepIndex: number): number => {
+    for (let i = 1; i < track.patternLength; i++) {
+        if (track.steps[(stepIndex + i) % track.patternLength]?.active) return i;
+    }
+    return track.patternLength;
+};
+
+// A sliding step glides from the track's previous active step, itself if it is the only one
+const getPreviousStep = (track: Track, stepIndex: number): StepState | undefined => {
+    for (let i = 1; i <= track.patternLength; i++) {
+        const step = track.steps[(stepIndex - i + track.patternLength) % track.patternLength];
+        if (step?.active) return step;
+    }
+    return undefined;
+};
+
+// Notes of one arp cycle; 'random' returns the pool to pick from
+export const buildArpSequence = (notes: string[], mode: ArpMode, octaves: number): string[] => {
+    const played = notes.map(noteNameToMidi);
+    const span = Array.from({ length: Math.max(1, octaves) }, (_, octave) => played.map(n => n + octave * 12)).flat();
+    const up = [...span].sort((a, b) => a - b);
+    let sequence: number[];
+    switch (mode) {
+        case 'down': sequence = [...up].reverse(); break;
+        case 'upDown': sequence = up.length > 2 ? [...up, ...up.slice(1, -1).reverse()] : up; break;
+        case 'asPlayed': sequence = span; break;
+        default: sequence = up;
+    }
+    return sequence.filter(n => n <= 127).map(midiToNoteName);
+};
+
+// A running arpeggio. Its notes are handed out tick by tick, so stopping, a pattern change or a
+// tempo change affects the rest of it like any other step; positions are in steps from `startTick`.
+interface ArpRun {
+    stepIndex: number;
+    step: StepState;
+    sequence: string[];
+    startTick: number;
+    offset: number; // swing, groove and micro-timing of the trig, in steps
+    spacing: number;
+    count: number;
+    next: number;
+    velocity: number;
+    accent: boolean;
+    paramSlide?: ParamSlide;
+}
+
+// Offsets the arp's random stream from the one used for probability, so turning on a random arp
+// leaves which trigs play unchanged
+const ARP_SEED_OFFSET = 0x9E3779B9;
+
+export class StepClock {
+    private tick = 0;
+    private cycleStep = 0;
+    private trackPositions = new Map<number, number>();
+    // Completed loops per track since play or the last pattern change, for `A:B` and 1ST conditions
+    private trackLoops = new Map<number, number>();
+    // Result of the last evaluated condition per track, for PRE and NEI
+    private conditionResults = new Map<number, boolean>();
+    private random = createSeededRandom(1);
+    private arpRandom = createSeededRandom(1 + ARP_SEED_OFFSET);
+    private arps = new Map<number, ArpRun>();
+
+    // Step times are measured from the last tempo change instead of summing durations,
+    // so they never drift and a BPM change only moves steps that are not scheduled yet.
+    private segmentStartTime = 0;
+    private segmentStartTick = 0;
+    private stepDuration = getStepDuration(120);
+
+    // `tick` > 0 starts mid-song (e.g. a MIDI continue); track positions follow from it
+    public reset(startTime: number, bpm: number, tracks: Track[], seed: number, tick = 0) {
+        this.tick = tick;
+        this.cycleStep = tick % getPatternCycleLength(tracks);
+        this.trackPositions = new Map(tracks.map(t => [t.id, tick % t.patternLength]));
+        this.trackLoops = new Map(tracks.map(t => [t.id, Math.floor(tick / t.patternLength)]));
+        this.conditionResults.clear();
+        this.random = createSeededRandom(seed);
+        this.arpRandom = createSeededRandom(seed + ARP_SEED_OFFSET);
+        this.arps.clear();
+        this.segmentStartTime = startTime;
+        this.segmentStartTick = tick;
+        this.stepDuration = getStepDuration(bpm);
+    }
+
+    public setTempo(bpm: number) {
+        const duration = getStepDuration(bpm);
+        if (duration === this.stepDuration) return;
+        this.segmentStartTime = this.getNextTime();
+        this.segmentStartTick = this.tick;
+        this.stepDuration = duration;
+    }
+
+    // Follow mode: the external clock decides when steps happen
+    public syncTime(time: number) {
+        this.segmentStartTime = time;
+        this.segmentStartTick = this.tick;
+    }
+
+    public getTick() { return this.tick; }
+    public getNextTime() { return this.segmentStartTime + (this.tick - this.segmentStartTick) * this.stepDuration; }
+    public getStepDuration() { return this.stepDuration; }
+    public isPatternStart() { return this.cycleStep === 0; }
+
+    public getTrackStep(track: Track): number {
+        return (this.trackPositions.get(track.id) ?? 0) % track.patternLength;
+    }
+
+    public getTrackSteps(tracks: Track[]): number[] {
+        const steps: number[] = [];
+        tracks.forEach(track => { steps[track.id] = this.getTrackStep(track); });
+        return steps;
+    }
+
+    // A newly started pattern plays all of its tracks from their first step
+    public resetTrackPositions() {
+        this.trackPositions.clear();
+        this.trackLoops.clear();
+        this.arps.clear();
+    }
+
+    private evaluateCondition(track: Track, step: StepState, fill: boolean): boolean {
+        const loop = this.trackLoops.get(track.id) ?? 0;
+        const condition = step.condition;
+        let result = true;
+        switch (condition) {
+            case null: break;
+            case 'FILL': result = fill; break;
+            case 'NOT FILL': result = !fill; break;
+            case 'PRE': result = this.conditionResults.get(track.id) ?? false; break;
+            case 'NOT PRE': result = !(this.conditionResults.get(track.id) ?? false); break;
+            case 'NEI': result = this.conditionResults.get(track.id - 1) ?? false; break;
+            case 'NOT NEI': result = !(this.conditionResults.get(track.id - 1) ?? false); break;
+            case '1ST': result = loop === 0; break;
+            case 'NOT 1ST': result = loop > 0; break;
+            default: {
+                const [a, b] = condition.split(':').map(Number);
+                result = loop % b === a - 1;
+            }
+        }
+        // Probability applies on top of any condition
+        if (step.probability < 100 && this.random() * 100 >= step.probability) result = false;
+
+        // PRE and NEI read other results without becoming one themselves
+        const isLinked = condition !== null && (condition.endsWith('PRE') || condition.endsWith('NEI'));
+        if (!isLinked && (condition !== null || step.probability < 100)) this.conditionResults.set(track.id, result);
+        return result;
+    }
+
+    // Active steps of the audible tracks on the upcoming tick. Call once per tick: it evaluates
+    // trig conditions, including on muted tracks so PRE / NEI stay the same when unmuting.
+    // Grooves follow the bar grid rather than each track's own position, so tracks of
+    // different lengths still swing together.
+    public getTrigs(tracks: Track[], isAudible: (trackId: number) => boolean, { swing, fill, scale, transpose }: StepOptions): StepTrig[] {
+        const stepTime = this.getNextTime();
+        const gridStep = this.tick % STEPS_PER_BAR;
+        return tracks.flatMap(track => {
+            const stepIndex = this.getTrackStep(track);
+            const step = track.steps[stepIndex];
+            if (!step || !step.active) return this.getArpTrigs(track, isAudible(track.id));
+            // Reaching an active step ends the previous step's arp, whether this one plays or not
+            this.arps.delete(track.id);
+            if (!this.evaluateCondition(track, step, fill) || !isAudible(track.id)) return [];
+            const groove = GROOVE_TEMPLATES.find(g => g.id === track.grooveId);
+            const offset = getSwingOffset(this.tick, swing) + (groove?.offsets[gridStep] ?? 0) + step.microTiming;
+            const time = Math.max(0, stepTime + offset * this.stepDuration);
+            const velocity = Math.min(1, step.velocity * (groove?.velocities[gridStep] ?? 1));
+            const notes = getStepNotes(track, step).map(note => applyScale(note, track, scale, transpose));
+            const { gateLength, slide, accent } = step;
+            // Every hit of a ratchet or arp reads the same glide, so they continue it rather than restart it
+            const paramSlide = step.paramSlide
+                ? { from: getPreviousStep(track, stepIndex)?.pLocks ?? null, start: time, end: time + this.stepDuration }
+                : undefined;
+
+            const arp = getArpParams(track, step);
+            if (arp && arp.mode !== 'off') {
+                const spacing = arp.division * 4;
+                this.arps.set(track.id, {
+                    stepIndex, step, sequence: buildArpSequence(notes, arp.mode, arp.octaves),
+                    startTick: this.tick, offset: (time - stepTime) / this.stepDuration, spacing,
+                    count: Math.max(1, Math.floor(getHoldSteps(track, stepIndex) / spacing + 1e-6)), next: 0,
+                    velocity, accent, paramSlide,
+                });
+                return this.getArpTrigs(track, true);
+            }
+
+            if (step.retrigCount <= 1) {
+                return [{ track, stepIndex, step, notes, time, velocity, articulation: { length: this.stepDuration, gateLength, slide, accent, paramSlide } }];
+            }
+
+            // Only the last hit of a ratchet can slide into the next step
+            const spacing = this.stepDuration / step.retrigRate;
+            return Array.from({ length: step.retrigCount }, (_, i) => ({
+                track, stepIndex, step, notes,
+                time: time + i * spacing,
+                velocity: velocity * getRetrigVelocityScale(i, step.retrigCount, step.retrigVelocityRamp),
+                articulation: { length: spacing, gateLength, slide: slide && i === step.retrigCount - 1, accent, paramSlide },
+            }));
+        });
+    }
+
+    // Notes of the track's running arp that fall on the upcoming tick. A track muted mid-arp still steps
+    // through it, so unmuting picks the arp up where it would be.
+    private getArpTrigs(track: Track, audible: boolean): StepTrig[] {
+        const run = this.arps.get(track.id);
+        if (!run) return [];
+        const arp = getArpParams(track, run.step);
+        if (!arp || arp.mode === 'off') {
+            this.arps.delete(track.id);
+            return [];
+        }
+        const trigs: StepTrig[] = [];
+        const stepTime = this.getNextTime();
+        while (run.next < run.count && run.next * run.spacing < this.tick + 1 - run.startTick - 1e-6) {
+            const i = run.next++;
+            const note = arp.mode === 'random' ? run.sequence[Math.floor(this.arpRandom() * run.sequence.length)] : run.sequence[i % run.sequence.length];
+            if (!audible) continue;
+            trigs.push({
+                track, stepIndex: run.stepIndex, step: run.step, notes: [note],
+                time: Math.max(0, stepTime + (run.startTick + i * run.spacing + run.offset - this.tick) * this.stepDuration),
+                velocity: run.velocity,
+                articulation: { length: run.spacing * this.stepDuration, gateLength: arp.gate, slide: false, accent: run.accent, paramSlide: run.paramSlide },
+            });
+        }
+        if (run.next >= run.count) this.arps.delete(track.id);
+        return trigs;
+    }
+
+    public advance(tracks: Track[]) {
+        tracks.forEach(track => {
+            const position = (this.getTrackStep(track) + 1) % track.patternLength;
+            this.trackPositions.set(track.id, position);
+            if (position === 0) this.trackLoops.set(track.id, (this.trackLoops.get(track.id) ?? 0) + 1);
+        });
+        this.cycleStep = (this.cycleStep + 1) % getPatternCycleLength(tracks);
+        this.tick++;
+    }
+}
@@ -0,0 +1,54 @@
+import { StepState } from './types';
+import { MAX_PATTERN_LENGTH, createEmptyStep } from './constants';
+
+// --- Step editing tools ---
+// Each tool works on an inclusive range of one track's steps and returns new steps,
+// leaving everything outside the range as it was.
+
+export interface StepRange {
+    start: number;
+    end: number;
+}
+
+export interface StepsEdit {
+    trackId: number;
+    steps: StepState[];
+    patternLength: number;
+}
+
+const mapRange = (steps: StepState[], { start, end }: StepRange, getStep: (offset: number, range: StepState[]) => StepState): StepState[] => {
+    const range = steps.slice(start, end + 1);
+    return steps.map((step, i) => i >= start && i <= end ? getStep(i - start, range) : step);
+};
+
+// Moves the range's steps by `amount`; with `wrap` they rotate around it, otherwise empty steps fill in
+export const shiftSteps = (steps: StepState[], range: StepRange, amount: number, wrap: boolean): StepState[] =>
+    mapRange(steps, range, (offset, rangeSteps) => {
+        const source = offset - amount;
+        if (wrap) return rangeSteps[((source % rangeSteps.length) + rangeSteps.length) % rangeSteps.length];
+        return rangeSteps[source] ?? createEmptyStep();
+    });
+
+export const reverseSteps = (steps: StepState[], range: StepRange): StepState[] =>
+    mapRange(steps, range, (offset, rangeSteps) => rangeSteps[rangeSteps.length - 1 - offset]);
+
+// Turns trigs off and empty steps on; a step keeps its locks either way
+export const invertSteps = (steps: StepState[], range: StepRange): StepState[] =>
+    mapRange(steps, range, (offset, rangeSteps) => ({ ...rangeSteps[offset], active: !rangeSteps[offset].active }));
+
+// Without locks the steps are pasted as they are but with their p-locks and param slides left out
+export const pasteSteps = (steps: StepState[], clipboard: StepState[], at: number, withLocks: boolean): StepState[] =>
+    steps.map((step, i) => {
+        const source = clipboard[i - at];
+        if (!source) return step;
+        return withLocks ? source : { ...source, pLocks: null, paramSlide: false };
+    });
+
+// Copies the pattern into a second half of the same length, as far as the maximum length allows
+export const doubleSteps = (steps: StepState[], patternLength: number): { steps: StepState[]; patternLength: number } => {
+    const doubled = Math.min(MAX_PATTERN_LENGTH, patternLength * 2);
+    return {
+        steps: steps.map((step, i) => i >= patternLength && i < doubled ? steps[i - patternLength] : step),
+        patternLength: doubled,
+    };
+};
@@ -82,6 +82,15 @@ export interface OscillatorParams {
   detune: number;
 }
 
+export type ArpMode = 'off' | 'up' | 'down' | 'upDown' | 'random' | 'asPlayed';
+
+export interface ArpParams {
+    mode: ArpMode;
+    division: number; // beats per note, one of TIME_DIVISIONS
+    octaves: number; // 1 to 4
+    gate: number; // fraction of each arp note that is held
+}
+
 export interface PolyParams {
     osc1: OscillatorParams;
     osc2: OscillatorParams;
@@ -92,6 +101,7 @@ export interface PolyParams {
     filterEnv: Envelope;
     lfo1: LFOParams;
     lfo2: LFOParams;
+    arp: ArpParams;
 }
 
 export interface BassParams {
@@ -103,6 +113,7 @@ export interface BassParams {
     filter: FilterParams;
     lfo1: LFOParams;
     lfo2: LFOParams;
+    arp: ArpParams;
 }
 
 export interface ModalParams {
@@ -113,6 +124,7 @@ export interface ModalParams {
   filter: FilterParams;
   lfo1: LFOParams;
   lfo2: LFOParams;
+  arp: ArpParams;
 }
 
 export interface RiftParams {
@@ -145,6 +157,24 @@ export interface ScreamParams {
     filter: FilterParams;
     lfo1: LFOParams;
     lfo2: LFOParams;
+    arp: ArpParams;
+}
+
+
+// Plays a stretch of a loaded sample. `start` and `end` are percentages of its length; the step's
+// note sets the playback rate against the track's default note.
+export interface SampleParams {
+    sampleId: string | null;
+    sampleName: string;
+    pitch: number;
+    start: number;
+    end: number;
+    reverse: boolean;
+    loop: boolean;
+    ampEnv: Envelope;
+    filter: FilterParams;
+    lfo1: LFOParams;
+    lfo2: LFOParams;
 }
 
 
@@ -154,7 +184,7 @@ export interface FXSends {
   drive: number;
 }
 
-export type AllInstrumentParams = KickParams | HatParams | PolyParams | BassParams | ModalParams | RiftParams | GrainParams | ScreamParams;
+export type AllInstrumentParams = KickParams | HatParams | PolyParams | BassParams | ModalParams | RiftParams | GrainParams | ScreamParams | SampleParams;
 
 export type PLocks = {
   kickParams?: Partial<KickParams>;
@@ -165,6 +195,7 @@ export type PLocks = {
   riftParams?: Partial<RiftParams>;
   grainParams?: Partial<GrainParams>;
   screamParams?: Partial<ScreamParams>;
+  sampleParams?: Partial<SampleParams>;
   volume?: number;
   fxSends?: Partial<FXSends>;
 };
@@ -174,9 +205,57 @@ export interface StepState {
   pLocks: PLocks | null;
   note: string | null;
   velocity: number; // 0 to 1
+  microTiming: number; // nudge in fractions of a step, -0.5 to 0.5
+  probability: number; // 0 to 100 percent
+  condition: TrigCondition | null;
+  retrigCount: number; // 1 = single hit, 2 to 8 = ratchet
+  retrigRate: number; // hits per step, so the roll spacing is 1/retrigRate of a step
+  retrigVelocityRamp: number; // -1 (fade out) to 1 (fade in), 0 = flat
+  // Bass articulation
+  gateLength: number; // fraction of the step the note is held
+  slide: boolean; // glide into the next note without retriggering the envelopes
+  accent: boolean;
+  chord: StepChord | null; // built on `note` (or the track's default note)
+  paramSlide: boolean; // glide the locked parameters in from the previous active step
+}
+
+export type ChordType = 'maj' | 'min' | '5' | 'sus2' | 'sus4' | 'dim' | 'aug' | 'maj7' | 'min7' | '7' | 'add9' | 'min9';
+
+export type ScaleId = 'major' | 'minor' | 'dorian' | 'phrygian' | 'lydian' | 'mixolydian' | 'locrian'
+  | 'majorPentatonic' | 'minorPentatonic' | 'harmonicMinor' | 'custom';
+
+export interface ProjectScale {
+  root: number; // pitch class, 0 = C
+  scale: ScaleId;
+  customIntervals: number[]; // semitones above the root, used by the 'custom' scale
+}
+
+export interface StepChord {
+  type: ChordType;
+  inversion: number; // how many of the lowest notes move up an octave
 }
 
-export type TrackType = 'kick' | 'hat' | 'poly' | 'bass' | 'modal' | 'rift' | 'grain' | 'scream';
+// How a scheduled note is played; voices that don't use it play one-shots
+export interface NoteArticulation {
+  length: number; // seconds of the step (or ratchet) slot
+  gateLength: number;
+  slide: boolean;
+  accent: boolean;
+  paramSlide?: ParamSlide;
+}
+
+// A sliding step's parameters start at the previous step's values at `start` and reach its own at `end`
+export interface ParamSlide {
+  from: PLocks | null;
+  start: number;
+  end: number;
+}
+
+// `A:B` plays on the A-th of every B loops of the track. PRE / NEI follow the last evaluated
+// condition on the same track / the track above; 1ST is the first loop after play or a pattern change.
+export type TrigCondition = 'FILL' | 'NOT FILL' | 'PRE' | 'NOT PRE' | 'NEI' | 'NOT NEI' | '1ST' | 'NOT 1ST' | `${number}:${number}`;
+
+export type TrackType = 'kick' | 'hat' | 'poly' | 'bass' | 'modal' | 'rift' | 'grain' | 'scream' | 'sample';
 
 export interface Track {
   id: number;
@@ -188,6 +267,120 @@ export interface Track {
   patternLength: number;
   defaultNote: string;
   steps: StepState[];
+  midiOut?: TrackMidiOut;
+  grooveId?: string;
+  chordMemory?: StepChord; // played on every step that has no chord of its own
+  voiceLimit?: number; // most notes the poly voice sounds at once
+  snapToScale?: boolean; // pull notes into the project scale on playback and input
+  randomRules?: RandomRule[];
+}
+
+// One engine's sound. Factory presets ship with the app; user presets are saved in the browser.
+export interface SoundPreset {
+  id: string;
+  name: string;
+  type: TrackType;
+  tags: string[];
+  params: AllInstrumentParams;
+  isFactory: boolean;
+}
+
+// The sound of one track in a kit; the steps stay with the patterns
+export interface KitTrack {
+  type: TrackType;
+  params: AllInstrumentParams;
+  fxSends: FXSends;
+  volume: number;
+  defaultNote: string;
+}
+
+// The sound of the whole project: every track, in track order, and the master effects
+export interface Kit {
+  id: string;
+  name: string;
+  tracks: KitTrack[];
+  globalFxParams: GlobalFXParams;
+}
+
+// Per-step timing offsets (fractions of a step) and velocity scales across one bar of 16ths
+export interface GrooveTemplate {
+  id: string;
+  name: string;
+  offsets: number[];
+  velocities: number[];
+}
+
+export interface TrackMidiOut {
+  outputId: string | null;
+  channel: number; // 0-based
+  gate: number; // note length in steps
+  internal: boolean; // keep the internal voice sounding alongside MIDI
+}
+
+export type RandomRule = 'downbeats' | 'offbeats' | 'noDownbeats' | 'notFirst' | 'varyLength';
+
+export interface RandomizerSettings {
+  seed: number;
+  density: number; // 0..1, chance of a hit on a step no rule decides
+  velocityMin: number; // 0..1
+  velocityMax: number;
+  noteMin: number; // MIDI; notes are picked from the project scale in this range
+  noteMax: number;
+  mutateAmount: number; // 0..1, share of the pattern MUTATE rewrites
+}
+
+export type EuclidVelocityShape = 'flat' | 'rampUp' | 'rampDown' | 'random';
+
+export interface EuclidSettings {
+  pulses: number;
+  steps: number; // length of one Euclidean cycle, repeated across the track's pattern length
+  rotation: number;
+  accentEvery: number; // every Nth pulse is accented, 0 = none
+  velocity: number; // 0..1, for unaccented pulses
+  velocityShape: EuclidVelocityShape;
+  velocitySpread: number; // 0..1, how far the shape pulls velocity down
+  seed: number; // for the 'random' shape, so the preview matches what gets written
+}
+
+export interface PatternTrack {
+  steps: StepState[];
+  patternLength: number;
+}
+
+// One entry per track, indexed by track id
+export interface Pattern {
+  tracks: PatternTrack[];
+  transpose: number; // scale degrees, added to the project transpose
+}
+
+export interface ChainEntry {
+  patternIndex: number;
+  repeats: number;
+}
+
+// `channel` is 0-based, null listens on every channel. A fixed `note` plays the track's
+// default note (drum style); a null `note` plays the incoming pitch on the track.
+export interface MidiNoteMapEntry {
+  trackId: number;
+  channel: number | null;
+  note: number | null;
+}
+
+// Parameter a MIDI CC is bound to. `path` uses the dotted paths of the editors:
+// instrument params for 'track' (`filter.cutoff`), `volume` / `fxSends.delay` for 'mixer',
+// and `<fx>.<param>` for the master 'fx' rack (`reverb.mix`).
+export type MidiCCTarget =
+  | { scope: 'track'; trackId: number; path: string }
+  | { scope: 'mixer'; trackId: number; path: string }
+  | { scope: 'fx'; path: string };
+
+export interface MidiCCMapping {
+  channel: number;
+  controller: number;
+  target: MidiCCTarget;
+  min: number;
+  max: number;
+  step: number;
 }
 
 export interface ReverbParams {
@@ -226,4 +419,37 @@ export interface GlobalFXParams {
   delay: DelayParams;
   drive: DriveParams;
   compressor: CompressorParams;
-}
\ No newline at end of file
+}
+
+export interface ProjectState {
+  bpm: number;
+  swing: number; // 50 (straight) to 75 percent
+  seed: number; // drives step probabilities, so playback and exports repeat
+  scale: ProjectScale;
+  transpose: number; // scale degrees applied to every melodic track
+  randomizer: RandomizerSettings;
+  tracks: Track[];
+  globalFxParams: GlobalFXParams;
+  mutedTracks: number[];
+  soloedTrackId: number | null;
+  patterns: Pattern[];
+  currentPatternIndex: number;
+  chain: ChainEntry[];
+  songMode: boolean;
+  midiNoteMap: MidiNoteMapEntry[];
+  midiCCMappings: MidiCCMapping[];
+}
+
+// A sample in the browser's local library. The id is the SHA-256 of the file, so projects and
+// presets that name it find the same audio again after a reload.
+export interface SampleInfo {
+  id: string;
+  name: string;
+  duration: number; // seconds
+  sampleRate: number;
+  channels: number;
+  peaks: number[]; // 0 to 1, the waveform thumbnail
+  loop: { start: number; end: number } | null; // seconds, from the file's loop points
+  cues: number[]; // seconds, the file's cue markers
+  addedAt: number;
+}
@@ -1,4 +1,7 @@
-const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+import { StepChord, ProjectScale } from './types';
+import { CHORD_TYPES, SCALES } from './constants';
+
+export const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
 
 export const midiToNoteName = (midi: number): string => {
     if (midi < 0 || midi > 127) return "---";
@@ -30,3 +33,75 @@ export const noteToFreq = (note: string): number => {
         return 440;
     }
 };
+
+// Small deterministic PRNG (mulberry32) so the same seed always replays the same choices
+export const createSeededRandom = (seed: number): (() => number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+// Note names of `chord` built on `root`, lowest first
+export const getChordNotes = (root: string, chord: StepChord): string[] => {
+    const intervals = CHORD_TYPES.find(c => c.type === chord.type)?.intervals ?? [0];
+    const rootMidi = noteNameToMidi(root);
+    const notes = intervals.map(i => rootMidi + i);
+    for (let i = 0; i < chord.inversion % notes.length; i++) {
+        notes.push(notes.shift()! + 12);
+    }
+    return notes.filter(n => n >= 0 && n <= 127).map(midiToNoteName);
+};
+
+export const getChordName = (chord: StepChord): string => {
+    const name = CHORD_TYPES.find(c => c.type === chord.type)?.name ?? '';
+    return chord.inversion > 0 ? `${name}/${chord.inversion}` : name;
+};
+
+// --- Scales ---
+
+const pitchClass = (midi: number): number => ((midi % 12) + 12) % 12;
+
+// Pitch classes of `scale` (0 = C), ascending
+export const getScalePitchClasses = (scale: ProjectScale): number[] => {
+    const intervals = scale.scale === 'custom' ? scale.customIntervals : SCALES.find(s => s.id === scale.scale)?.intervals ?? [0];
+    return [...new Set((intervals.length > 0 ? intervals : [0]).map(i => pitchClass(scale.root + i)))].sort((a, b) => a - b);
+};
+
+// Nearest note of the scale; ties resolve downwards
+export const snapToScale = (midi: number, scale: ProjectScale): number => {
+    const classes = getScalePitchClasses(scale);
+    for (let distance = 0; distance < 12; distance++) {
+        if (classes.includes(pitchClass(midi - distance))) return midi - distance;
+        if (classes.includes(pitchClass(midi + distance))) return midi + distance;
+    }
+    return midi;
+};
+
+// Moves `midi` by scale degrees. A note outside the scale keeps its distance to the scale note below it.
+export const transposeInScale = (midi: number, degrees: number, scale: ProjectScale): number => {
+    if (degrees === 0) return midi;
+    const classes = getScalePitchClasses(scale);
+    let base = midi;
+    while (!classes.includes(pitchClass(base))) base--;
+    const index = classes.indexOf(pitchClass(base)) + degrees;
+    const octaves = Math.floor(index / classes.length);
+    const target = (Math.floor(base / 12) + octaves) * 12 + classes[index - octaves * classes.length];
+    return target + (midi - base);
+};
+
+// Notes of the scale from `low` to `high` (MIDI numbers, inclusive)
+export const getScaleNotes = (scale: ProjectScale, low: number, high: number): number[] => {
+    const classes = getScalePitchClasses(scale);
+    return Array.from({ length: high - low + 1 }, (_, i) => low + i).filter(n => classes.includes(pitchClass(n)));
+};
+
+// Hex SHA-256 of the bytes; samples are referenced by the hash of their file, so the same audio gets the same id
+export const hashBytes = async (data: ArrayBuffer): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
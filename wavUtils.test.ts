@@ -0,0 +1,243 @@
+import { describe, it, expect } from 'vitest';
+import { audioBufferToWav, decodeAiff, decodeAudioFile, decodeWav } from './wavUtils';
+
+// --- File builders ---
+// Small files written byte by byte, so each test shows exactly what the decoder is given.
+
+const u16 = (value: number, littleEndian: boolean) => {
+    const bytes = [value & 0xff, (value >> 8) & 0xff];
+    return littleEndian ? bytes : bytes.reverse();
+};
+
+const u32 = (value: number, littleEndian: boolean) => {
+    const bytes = [value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff];
+    return littleEndian ? bytes : bytes.reverse();
+};
+
+const i24 = (value: number, littleEndian: boolean) => {
+    const bytes = [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff];
+    return littleEndian ? bytes : bytes.reverse();
+};
+
+const f32 = (value: number, littleEndian: boolean) => {
+    const view = new DataView(new ArrayBuffer(4));
+    view.setFloat32(0, value, littleEndian);
+    return Array.from(new Uint8Array(view.buffer));
+};
+
+const str = (text: string) => Array.from(text, c => c.charCodeAt(0));
+
+// `declaredSize` lets a test claim more bytes than the chunk holds
+const chunk = (id: string, body: number[], littleEndian: boolean, declaredSize = body.length) =>
+    [...str(id), ...u32(declaredSize, littleEndian), ...body, ...(body.length % 2 ? [0] : [])];
+
+const toBuffer = (bytes: number[]) => new Uint8Array(bytes).buffer;
+
+const wavFile = (...chunks: number[][]) => {
+    const body = [...str('WAVE'), ...chunks.flat()];
+    return toBuffer([...str('RIFF'), ...u32(body.length, true), ...body]);
+};
+
+const fmtChunk = (format: number, channels: number, sampleRate: number, bits: number) => chunk('fmt ', [
+    ...u16(format, true), ...u16(channels, true), ...u32(sampleRate, true),
+    ...u32(sampleRate * channels * bits / 8, true), ...u16(channels * bits / 8, true), ...u16(bits, true),
+], true);
+
+const dataChunk = (samples: number[][]) => chunk('data', samples.flat(), true);
+
+const aiffFile = (formType: 'AIFF' | 'AIFC', ...chunks: number[][]) => {
+    const body = [...str(formType), ...chunks.flat()];
+    return toBuffer([...str('FORM'), ...u32(body.length, false), ...body]);
+};
+
+// 80-bit extended float of a whole sample rate
+const extended = (rate: number) => {
+    const exponent = Math.floor(Math.log2(rate));
+    return [...u16(16383 + exponent, false), ...u32(rate * 2 ** (31 - exponent), false), ...u32(0, false)];
+};
+
+const pascalString = (text: string) => [text.length, ...str(text), ...((text.length + 1) % 2 ? [0] : [])];
+
+const commChunk = (channels: number, frames: number, bits: number, sampleRate: number, compression?: string) => chunk('COMM', [
+    ...u16(channels, false), ...u32(frames, false), ...u16(bits, false), ...extended(sampleRate),
+    ...(compression ? [...str(compression), ...pascalString('')] : []),
+], false);
+
+const ssndChunk = (samples: number[][]) => chunk('SSND', [...u32(0, false), ...u32(0, false), ...samples.flat()], false);
+
+const frames = (channel: Float32Array) => Array.from(channel);
+
+// --- WAV ---
+
+describe('decodeWav', () => {
+    it('decodes 8-bit PCM as unsigned', () => {
+        const decoded = decodeWav(wavFile(fmtChunk(1, 1, 22050, 8), dataChunk([[128, 192, 0]])));
+
+        expect(decoded.sampleRate).toBe(22050);
+        expect(frames(decoded.channels[0])).toEqual([0, 0.5, -1]);
+    });
+
+    it('decodes interleaved 16-bit PCM', () => {
+        const decoded = decodeWav(wavFile(fmtChunk(1, 2, 44100, 16), dataChunk([
+            u16(0x4000, true), u16(0x8000, true),
+            u16(0xc000, true), u16(0, true),
+        ])));
+
+        expect(decoded.channels.map(frames)).toEqual([[0.5, -0.5], [-1, 0]]);
+    });
+
+    it('decodes 24-bit PCM', () => {
+        const decoded = decodeWav(wavFile(fmtChunk(1, 1, 48000, 24), dataChunk([i24(0x400000, true), i24(-0x800000, true), i24(-0x200000, true)])));
+
+        expect(frames(decoded.channels[0])).toEqual([0.5, -1, -0.25]);
+    });
+
+    it('decodes 32-bit float', () => {
+        const decoded = decodeWav(wavFile(fmtChunk(3, 1, 44100, 32), dataChunk([f32(0.25, true), f32(-0.75, true)])));
+
+        expect(frames(decoded.channels[0])).toEqual([0.25, -0.75]);
+    });
+
+    it('reads the real format of an extensible header from its sub-format', () => {
+        const fmt = chunk('fmt ', [
+            ...u16(0xfffe, true), ...u16(1, true), ...u32(44100, true), ...u32(44100 * 3, true), ...u16(3, true), ...u16(24, true),
+            ...u16(22, true), ...u16(24, true), ...u32(0x4, true),
+            ...u16(1, true), ...Array(14).fill(0), // KSDATAFORMAT_SUBTYPE_PCM, rest of the GUID left blank
+        ], true);
+
+        const decoded = decodeWav(wavFile(fmt, dataChunk([i24(0x400000, true)])));
+
+        expect(frames(decoded.channels[0])).toEqual([0.5]);
+    });
+
+    it('rejects compressed formats', () => {
+        expect(() => decodeWav(wavFile(fmtChunk(2, 1, 44100, 4), dataChunk([[0, 0]])))).toThrow('Unsupported WAV format 2');
+    });
+
+    it('reads smpl loops with the end as the frame after the loop', () => {
+        const loop = (type: number, start: number, end: number) => [...u32(0, true), ...u32(type, true), ...u32(start, true), ...u32(end, true), ...u32(0, true), ...u32(0, true)];
+        const smpl = chunk('smpl', [...Array(28).fill(0), ...u32(2, true), ...u32(0, true), ...loop(0, 10, 19), ...loop(1, 2, 5)], true);
+
+        const decoded = decodeWav(wavFile(fmtChunk(1, 1, 44100, 16), dataChunk([Array(64).fill(0)]), smpl));
+
+        expect(decoded.loops).toEqual([
+            { start: 10, end: 20, type: 'forward' },
+            { start: 2, end: 6, type: 'pingPong' },
+        ]);
+    });
+
+    it('reads cue points in order with their labl names', () => {
+        const cuePoint = (id: number, position: number) => [...u32(id, true), ...u32(position, true), ...str('data'), ...u32(0, true), ...u32(0, true), ...u32(position, true)];
+        const cue = chunk('cue ', [...u32(2, true), ...cuePoint(1, 30), ...cuePoint(2, 5)], true);
+        const labl = (id: number, text: string) => chunk('labl', [...u32(id, true), ...str(text), 0], true);
+        const list = chunk('LIST', [...str('adtl'), ...labl(1, 'Snare'), ...labl(2, 'Kick')], true);
+
+        const decoded = decodeWav(wavFile(fmtChunk(1, 1, 44100, 16), dataChunk([Array(64).fill(0)]), cue, list));
+
+        expect(decoded.cues).toEqual([
+            { id: 2, position: 5, label: 'Kick' },
+            { id: 1, position: 30, label: 'Snare' },
+        ]);
+    });
+
+    it('reports a truncated fmt chunk', () => {
+        const fmt = chunk('fmt ', [...u16(1, true), ...u16(1, true), ...u32(44100, true), ...u32(88200, true), ...u16(2, true)], true);
+
+        expect(() => decodeWav(wavFile(fmt, dataChunk([[0, 0]])))).toThrow('WAV header is truncated');
+    });
+
+    it('reports a data chunk cut short by the end of the file', () => {
+        const data = chunk('data', [0, 0, 0, 0], true, 100);
+
+        expect(() => decodeWav(wavFile(fmtChunk(1, 1, 44100, 16), data))).toThrow('WAV data chunk is truncated');
+    });
+
+    it('reports a missing data chunk', () => {
+        expect(() => decodeWav(wavFile(fmtChunk(1, 1, 44100, 16)))).toThrow('WAV file has no fmt or data chunk');
+    });
+});
+
+// --- AIFF ---
+
+describe('decodeAiff', () => {
+    it('decodes big-endian 16-bit AIFF', () => {
+        const decoded = decodeAiff(aiffFile('AIFF', commChunk(1, 2, 16, 44100), ssndChunk([u16(0x4000, false), u16(0xc000, false)])));
+
+        expect(decoded.sampleRate).toBe(44100);
+        expect(frames(decoded.channels[0])).toEqual([0.5, -0.5]);
+    });
+
+    it('decodes signed 8-bit and 24-bit AIFF', () => {
+        const eightBit = decodeAiff(aiffFile('AIFF', commChunk(1, 2, 8, 8000), ssndChunk([[0x40, 0x80]])));
+        const twentyFourBit = decodeAiff(aiffFile('AIFF', commChunk(2, 1, 24, 96000), ssndChunk([i24(0x400000, false), i24(-0x800000, false)])));
+
+        expect(frames(eightBit.channels[0])).toEqual([0.5, -1]);
+        expect(twentyFourBit.sampleRate).toBe(96000);
+        expect(twentyFourBit.channels.map(frames)).toEqual([[0.5], [-1]]);
+    });
+
+    it('decodes little-endian AIFF-C sowt', () => {
+        const decoded = decodeAiff(aiffFile('AIFC', commChunk(1, 2, 16, 48000, 'sowt'), ssndChunk([u16(0x4000, true), u16(0xc000, true)])));
+
+        expect(frames(decoded.channels[0])).toEqual([0.5, -0.5]);
+    });
+
+    it('decodes AIFF-C fl32', () => {
+        const decoded = decodeAiff(aiffFile('AIFC', commChunk(1, 2, 32, 44100, 'fl32'), ssndChunk([f32(0.25, false), f32(-0.75, false)])));
+
+        expect(frames(decoded.channels[0])).toEqual([0.25, -0.75]);
+    });
+
+    it('rejects unsupported AIFF-C compression', () => {
+        expect(() => decodeAiff(aiffFile('AIFC', commChunk(1, 2, 16, 44100, 'ima4'), ssndChunk([[0, 0, 0, 0]]))))
+            .toThrow('Unsupported AIFF-C compression "ima4"');
+    });
+
+    it('reads markers and the sustain loop of the INST chunk', () => {
+        const marker = (id: number, position: number, name: string) => [...u16(id, false), ...u32(position, false), ...pascalString(name)];
+        const mark = chunk('MARK', [...u16(2, false), ...marker(1, 4, 'loop start'), ...marker(2, 12, 'end')], false);
+        const inst = chunk('INST', [60, 0, 0, 127, 1, 127, ...u16(0, false), ...u16(1, false), ...u16(1, false), ...u16(2, false), ...u16(0, false), ...u16(0, false), ...u16(0, false)], false);
+
+        const decoded = decodeAiff(aiffFile('AIFF', commChunk(1, 16, 16, 44100), ssndChunk([Array(32).fill(0)]), mark, inst));
+
+        expect(decoded.cues).toEqual([
+            { id: 1, position: 4, label: 'loop start' },
+            { id: 2, position: 12, label: 'end' },
+        ]);
+        expect(decoded.loops).toEqual([{ start: 4, end: 12, type: 'forward' }]);
+    });
+
+    it('reports a truncated COMM chunk', () => {
+        const comm = chunk('COMM', [...u16(1, false), ...u32(2, false), ...u16(16, false), ...Array(8).fill(0)], false);
+
+        expect(() => decodeAiff(aiffFile('AIFF', comm, ssndChunk([[0, 0, 0, 0]])))).toThrow('AIFF header is truncated');
+    });
+
+    it('reports a truncated SSND chunk', () => {
+        const ssnd = chunk('SSND', [...u32(0, false), ...u32(0, false), 0, 0], false, 100);
+
+        expect(() => decodeAiff(aiffFile('AIFF', commChunk(1, 2, 16, 44100), ssnd))).toThrow('AIFF sound data is truncated');
+    });
+
+    it('reports sound data shorter than the frame count', () => {
+        expect(() => decodeAiff(aiffFile('AIFF', commChunk(1, 4, 16, 44100), ssndChunk([[0, 0, 0, 0]])))).toThrow('AIFF sound data is truncated');
+    });
+});
+
+describe('decodeAudioFile', () => {
+    it('picks the decoder from the header', () => {
+        expect(frames(decodeAudioFile(wavFile(fmtChunk(1, 1, 44100, 16), dataChunk([u16(0x4000, true)]))).channels[0])).toEqual([0.5]);
+        expect(frames(decodeAudioFile(aiffFile('AIFF', commChunk(1, 1, 16, 44100), ssndChunk([u16(0x4000, false)]))).channels[0])).toEqual([0.5]);
+        expect(() => decodeAudioFile(toBuffer(str('OggS0000')))).toThrow('Not a WAV or AIFF file');
+    });
+
+    it('reads back what audioBufferToWav writes', () => {
+        const channels = [new Float32Array([0, 0.5, -0.25]), new Float32Array([1, -1, 0.125])];
+        const buffer = { numberOfChannels: 2, sampleRate: 48000, length: 3, getChannelData: (i: number) => channels[i] } as unknown as AudioBuffer;
+
+        const decoded = decodeAudioFile(audioBufferToWav(buffer));
+
+        expect(decoded.sampleRate).toBe(48000);
+        expect(decoded.channels).toEqual(channels);
+    });
+});
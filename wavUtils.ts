@@ -65,4 +65,257 @@ export function audioBufferToWav(buffer: AudioBuffer): ArrayBuffer {
     }
 
     return arrayBuffer;
-}
\ No newline at end of file
+}
+
+// --- WAV / AIFF decoding ---
+// Reads the file without the Web Audio API, so it runs in Node too. Sample loops and cue markers
+// come from the `smpl` and `cue ` chunks of a WAV and the INST and MARK chunks of an AIFF.
+
+export type SampleLoopType = 'forward' | 'pingPong' | 'backward';
+
+// Positions are in sample frames; `end` is the first frame after the loop
+export interface SampleLoop {
+    start: number;
+    end: number;
+    type: SampleLoopType;
+}
+
+export interface SampleCue {
+    id: number;
+    position: number;
+    label: string;
+}
+
+export interface DecodedAudio {
+    sampleRate: number;
+    channels: Float32Array[];
+    loops: SampleLoop[];
+    cues: SampleCue[];
+}
+
+type SampleEncoding = 'int' | 'uint' | 'float';
+
+interface Chunk {
+    id: string;
+    offset: number;
+    size: number;
+    truncated: boolean; // the file ends before the size the chunk claims
+}
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+function readString(view: DataView, offset: number, length: number): string {
+    let str = '';
+    for (let i = 0; i < length && offset + i < view.byteLength; i++) {
+        str += String.fromCharCode(view.getUint8(offset + i));
+    }
+    return str;
+}
+
+// Chunks are padded to an even length; a chunk claiming more bytes than the file has is cut short and marked truncated
+function readChunks(view: DataView, start: number, littleEndian: boolean): Chunk[] {
+    const chunks: Chunk[] = [];
+    let offset = start;
+    while (offset + 8 <= view.byteLength) {
+        const id = readString(view, offset, 4);
+        const declaredSize = view.getUint32(offset + 4, littleEndian);
+        const size = Math.min(declaredSize, view.byteLength - offset - 8);
+        chunks.push({ id, offset: offset + 8, size, truncated: size < declaredSize });
+        offset += 8 + size + (size % 2);
+    }
+    return chunks;
+}
+
+function readFrames(view: DataView, offset: number, byteLength: number, numChannels: number, bitsPerSample: number,
+    encoding: SampleEncoding, littleEndian: boolean): Float32Array[] {
+    const bytesPerSample = bitsPerSample / 8;
+    const numFrames = Math.floor(byteLength / (bytesPerSample * numChannels));
+    const channels = Array.from({ length: numChannels }, () => new Float32Array(numFrames));
+    const readSample = getSampleReader(view, bitsPerSample, encoding, littleEndian);
+    let position = offset;
+    for (let i = 0; i < numFrames; i++) {
+        for (let c = 0; c < numChannels; c++) {
+            channels[c][i] = readSample(position);
+            position += bytesPerSample;
+        }
+    }
+    return channels;
+}
+
+function getSampleReader(view: DataView, bitsPerSample: number, encoding: SampleEncoding, littleEndian: boolean): (offset: number) => number {
+    if (encoding === 'float') {
+        if (bitsPerSample === 32) return offset => view.getFloat32(offset, littleEndian);
+        if (bitsPerSample === 64) return offset => view.getFloat64(offset, littleEndian);
+    } else if (bitsPerSample === 8) {
+        // WAV stores 8-bit audio unsigned, AIFF signed
+        return encoding === 'uint' ? offset => (view.getUint8(offset) - 128) / 128 : offset => view.getInt8(offset) / 128;
+    } else if (bitsPerSample === 16) {
+        return offset => view.getInt16(offset, littleEndian) / 32768;
+    } else if (bitsPerSample === 24) {
+        return offset => {
+            const [low, mid, high] = littleEndian ? [0, 1, 2] : [2, 1, 0];
+            const value = view.getUint8(offset + low) | (view.getUint8(offset + mid) << 8) | (view.getInt8(offset + high) << 16);
+            return value / 8388608;
+        };
+    } else if (bitsPerSample === 32) {
+        return offset => view.getInt32(offset, littleEndian) / 2147483648;
+    }
+    throw new Error(`Unsupported ${bitsPerSample}-bit ${encoding === 'float' ? 'float' : 'PCM'} audio`);
+}
+
+export function decodeWav(data: ArrayBuffer): DecodedAudio {
+    const view = new DataView(data);
+    if (readString(view, 0, 4) !== 'RIFF' || readString(view, 8, 4) !== 'WAVE') throw new Error('Not a WAV file');
+    const chunks = readChunks(view, 12, true);
+    const fmt = chunks.find(c => c.id === 'fmt ');
+    const dataChunk = chunks.find(c => c.id === 'data');
+    if (!fmt || !dataChunk) throw new Error('WAV file has no fmt or data chunk');
+    if (fmt.size < 16) throw new Error('WAV header is truncated');
+    if (dataChunk.truncated) throw new Error('WAV data chunk is truncated');
+
+    let formatTag = view.getUint16(fmt.offset, true);
+    const numChannels = view.getUint16(fmt.offset + 2, true);
+    const sampleRate = view.getUint32(fmt.offset + 4, true);
+    const bitsPerSample = view.getUint16(fmt.offset + 14, true);
+    // The extensible format names the real one in the first two bytes of its sub-format GUID
+    if (formatTag === WAVE_FORMAT_EXTENSIBLE && fmt.size >= 26) formatTag = view.getUint16(fmt.offset + 24, true);
+    if (formatTag !== WAVE_FORMAT_PCM && formatTag !== WAVE_FORMAT_IEEE_FLOAT) throw new Error(`Unsupported WAV format ${formatTag}`);
+    if (numChannels === 0) throw new Error('WAV file has no channels');
+    const encoding: SampleEncoding = formatTag === WAVE_FORMAT_IEEE_FLOAT ? 'float' : bitsPerSample === 8 ? 'uint' : 'int';
+    const channels = readFrames(view, dataChunk.offset, dataChunk.size, numChannels, bitsPerSample, encoding, true);
+
+    return { sampleRate, channels, loops: readWavLoops(view, chunks), cues: readWavCues(view, chunks) };
+}
+
+function readWavLoops(view: DataView, chunks: Chunk[]): SampleLoop[] {
+    const smpl = chunks.find(c => c.id === 'smpl');
+    if (!smpl || smpl.size < 36) return [];
+    const count = Math.min(view.getUint32(smpl.offset + 28, true), Math.floor((smpl.size - 36) / 24));
+    const types: SampleLoopType[] = ['forward', 'pingPong', 'backward'];
+    return Array.from({ length: count }, (_, i) => {
+        const offset = smpl.offset + 36 + i * 24;
+        return {
+            start: view.getUint32(offset + 8, true),
+            end: view.getUint32(offset + 12, true) + 1, // stored as the last frame of the loop
+            type: types[view.getUint32(offset + 4, true)] ?? 'forward',
+        };
+    });
+}
+
+function readWavCues(view: DataView, chunks: Chunk[]): SampleCue[] {
+    const cue = chunks.find(c => c.id === 'cue ');
+    if (!cue || cue.size < 4) return [];
+    const labels = readWavLabels(view, chunks);
+    const count = Math.min(view.getUint32(cue.offset, true), Math.floor((cue.size - 4) / 24));
+    return Array.from({ length: count }, (_, i) => {
+        const offset = cue.offset + 4 + i * 24;
+        const id = view.getUint32(offset, true);
+        return { id, position: view.getUint32(offset + 20, true), label: labels.get(id) ?? '' };
+    }).sort((a, b) => a.position - b.position);
+}
+
+// Cue names live in `labl` entries of a LIST chunk of type `adtl`
+function readWavLabels(view: DataView, chunks: Chunk[]): Map<number, string> {
+    const labels = new Map<number, string>();
+    chunks.filter(c => c.id === 'LIST' && readString(view, c.offset, 4) === 'adtl').forEach(list => {
+        const listView = new DataView(view.buffer, view.byteOffset + list.offset, list.size);
+        readChunks(listView, 4, true).filter(c => c.id === 'labl' && c.size >= 4).forEach(labl => {
+            const text = readString(listView, labl.offset + 4, labl.size - 4);
+            labels.set(listView.getUint32(labl.offset, true), text.split('\0')[0]);
+        });
+    });
+    return labels;
+}
+
+// 80-bit IEEE extended float, the AIFF sample rate
+function readExtended(view: DataView, offset: number): number {
+    const exponent = view.getUint16(offset) & 0x7fff;
+    const mantissa = view.getUint32(offset + 2) * 2 ** 32 + view.getUint32(offset + 6);
+    if (exponent === 0 && mantissa === 0) return 0;
+    return mantissa * 2 ** (exponent - 16383 - 63);
+}
+
+// Pascal string padded so that the count byte and the text together have an even length
+function readPascalString(view: DataView, offset: number): { text: string; length: number } {
+    const count = view.getUint8(offset);
+    return { text: readString(view, offset + 1, count), length: 1 + count + ((count + 1) % 2) };
+}
+
+export function decodeAiff(data: ArrayBuffer): DecodedAudio {
+    const view = new DataView(data);
+    const formType = readString(view, 8, 4);
+    if (readString(view, 0, 4) !== 'FORM' || (formType !== 'AIFF' && formType !== 'AIFC')) throw new Error('Not an AIFF file');
+    const chunks = readChunks(view, 12, false);
+    const comm = chunks.find(c => c.id === 'COMM');
+    const ssnd = chunks.find(c => c.id === 'SSND');
+    if (!comm || !ssnd) throw new Error('AIFF file has no COMM or SSND chunk');
+    if (comm.size < 18 || ssnd.size < 8) throw new Error('AIFF header is truncated');
+
+    const numChannels = view.getInt16(comm.offset);
+    const numFrames = view.getUint32(comm.offset + 2);
+    const bitsPerSample = view.getInt16(comm.offset + 6);
+    const sampleRate = readExtended(view, comm.offset + 8);
+    const compression = formType === 'AIFC' && comm.size >= 22 ? readString(view, comm.offset + 18, 4) : 'NONE';
+    if (numChannels <= 0) throw new Error('AIFF file has no channels');
+
+    let encoding: SampleEncoding = 'int';
+    let littleEndian = false;
+    let containerBits = Math.ceil(bitsPerSample / 8) * 8;
+    if (compression === 'sowt') {
+        littleEndian = true;
+    } else if (compression === 'fl32' || compression === 'FL32') {
+        encoding = 'float';
+        containerBits = 32;
+    } else if (compression === 'fl64' || compression === 'FL64') {
+        encoding = 'float';
+        containerBits = 64;
+    } else if (compression !== 'NONE' && compression !== 'twos') {
+        throw new Error(`Unsupported AIFF-C compression "${compression}"`);
+    }
+
+    const dataOffset = ssnd.offset + 8 + view.getUint32(ssnd.offset);
+    const byteLength = numFrames * numChannels * containerBits / 8;
+    if (ssnd.truncated || ssnd.offset + ssnd.size - dataOffset < byteLength) throw new Error('AIFF sound data is truncated');
+    const channels = readFrames(view, dataOffset, byteLength, numChannels, containerBits, encoding, littleEndian);
+
+    const cues = readAiffMarkers(view, chunks);
+    return { sampleRate, channels, loops: readAiffLoops(view, chunks, cues), cues };
+}
+
+function readAiffMarkers(view: DataView, chunks: Chunk[]): SampleCue[] {
+    const mark = chunks.find(c => c.id === 'MARK');
+    if (!mark || mark.size < 2) return [];
+    const cues: SampleCue[] = [];
+    const end = mark.offset + mark.size;
+    let offset = mark.offset + 2;
+    for (let i = 0; i < view.getUint16(mark.offset) && offset + 7 <= end; i++) {
+        const name = readPascalString(view, offset + 6);
+        cues.push({ id: view.getInt16(offset), position: view.getUint32(offset + 2), label: name.text });
+        offset += 6 + name.length;
+    }
+    return cues.sort((a, b) => a.position - b.position);
+}
+
+// The sustain and release loops of the INST chunk point at markers for their ends
+function readAiffLoops(view: DataView, chunks: Chunk[], markers: SampleCue[]): SampleLoop[] {
+    const inst = chunks.find(c => c.id === 'INST');
+    if (!inst || inst.size < 20) return [];
+    const types: (SampleLoopType | null)[] = [null, 'forward', 'pingPong'];
+    return [8, 14].flatMap(loopOffset => {
+        const offset = inst.offset + loopOffset;
+        const type = types[view.getInt16(offset)];
+        const start = markers.find(m => m.id === view.getInt16(offset + 2));
+        const end = markers.find(m => m.id === view.getInt16(offset + 4));
+        return type && start && end && end.position > start.position ? [{ start: start.position, end: end.position, type }] : [];
+    });
+}
+
+export function decodeAudioFile(data: ArrayBuffer): DecodedAudio {
+    const view = new DataView(data);
+    const header = readString(view, 0, 4);
+    if (header === 'RIFF') return decodeWav(data);
+    if (header === 'FORM') return decodeAiff(data);
+    throw new Error('Not a WAV or AIFF file');
+}